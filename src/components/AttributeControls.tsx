@@ -0,0 +1,97 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ATTRIBUTE_FILTER_OPERATORS,
+  type AttributeFilter,
+  type AttributeFilterOperator,
+} from '@/lib/attributes';
+
+// Radix Select does not allow an empty item value.
+const NONE = '__none__';
+
+interface AttributeControlsProps {
+  attributeKeys: string[];
+  groupBy: string | null;
+  onGroupByChange: (key: string | null) => void;
+  filter: AttributeFilter;
+  onFilterChange: (filter: AttributeFilter) => void;
+  onExport: () => void;
+  canExport: boolean;
+}
+
+const AttributeControls: React.FC<AttributeControlsProps> = ({
+  attributeKeys,
+  groupBy,
+  onGroupByChange,
+  filter,
+  onFilterChange,
+  onExport,
+  canExport,
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+    <div className="space-y-2">
+      <Label htmlFor="group-by">Split Events By</Label>
+      <Select value={groupBy ?? NONE} onValueChange={(key) => onGroupByChange(key === NONE ? null : key)}>
+        <SelectTrigger id="group-by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Metric ID only</SelectItem>
+          {attributeKeys.map((key) => (
+            <SelectItem key={key} value={key}>{key}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="filter-key">Filter Events</Label>
+      <div className="flex gap-2">
+        <Select value={filter.key || NONE} onValueChange={(key) => onFilterChange({ ...filter, key: key === NONE ? '' : key })}>
+          <SelectTrigger id="filter-key">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No filter</SelectItem>
+            {attributeKeys.map((key) => (
+              <SelectItem key={key} value={key}>{key}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.operator}
+          disabled={!filter.key}
+          onValueChange={(operator) => onFilterChange({ ...filter, operator: operator as AttributeFilterOperator })}
+        >
+          <SelectTrigger className="w-40 shrink-0" aria-label="Filter operator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ATTRIBUTE_FILTER_OPERATORS) as AttributeFilterOperator[]).map((operator) => (
+              <SelectItem key={operator} value={operator}>{ATTRIBUTE_FILTER_OPERATORS[operator]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        aria-label="Filter value"
+        placeholder="Value"
+        value={filter.value}
+        disabled={!filter.key}
+        onChange={(e) => onFilterChange({ ...filter, value: e.target.value })}
+      />
+    </div>
+    <div className="space-y-2">
+      <Label>Export</Label>
+      <Button variant="outline" className="w-full" onClick={onExport} disabled={!canExport}>
+        <Download /> Export Visible Events
+      </Button>
+      <p className="text-xs text-muted-foreground">CSV including every attribute column.</p>
+    </div>
+  </div>
+);
+
+export default AttributeControls;
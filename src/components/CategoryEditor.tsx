@@ -0,0 +1,233 @@
+import React, { useMemo } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DASH_STYLES,
+  createCategory,
+  type DashStyle,
+  type MetricCategory,
+  type UncategorizedBucket,
+} from '@/lib/categories';
+import { countPatternMatches, findInvalidPatterns, looksLikeUnwrappedRegex, splitPatternList } from '@/lib/patterns';
+
+interface CategoryEditorProps {
+  categories: MetricCategory[];
+  onChange: (categories: MetricCategory[]) => void;
+  /** Distinct metric IDs in the loaded data, which pattern match counts refer to. */
+  loadedMetricIds: string[];
+  uncategorized: UncategorizedBucket;
+  onUncategorizedChange: (bucket: UncategorizedBucket) => void;
+  /** Distinct metric IDs with events no category or rule claims. */
+  uncategorizedCount: number;
+}
+
+// One badge per entry: invalid entries, entries matching no loaded metric and
+// regexes written without slashes stand out.
+const PatternMatches: React.FC<{ input: string; loadedMetricIds: string[] }> = ({ input, loadedMetricIds }) => {
+  const patterns = useMemo(() => splitPatternList(input), [input]);
+  const counts = useMemo(() => countPatternMatches(patterns, loadedMetricIds), [patterns, loadedMetricIds]);
+  const errors = useMemo(() => new Map(findInvalidPatterns(patterns).map(error => [error.pattern, error.message])), [patterns]);
+
+  const unwrapped = useMemo(() => new Set(patterns.filter(looksLikeUnwrappedRegex)), [patterns]);
+
+  if (patterns.length === 0 || (loadedMetricIds.length === 0 && errors.size === 0 && unwrapped.size === 0)) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {patterns.map((pattern, index) => {
+        const error = errors.get(pattern);
+        if (error) {
+          return <Badge key={`${pattern}-${index}`} variant="destructive" title={error}>{pattern}: invalid</Badge>;
+        }
+        const count = loadedMetricIds.length > 0 ? counts.get(pattern) ?? 0 : null;
+        if (count === 0 || (count === null && unwrapped.has(pattern))) {
+          const hint = unwrapped.has(pattern)
+            ? `Regex syntax outside slashes is matched literally; write /${pattern}/ for a regular expression.`
+            : '';
+          return (
+            <Badge
+              key={`${pattern}-${index}`}
+              variant="outline"
+              className="border-destructive text-destructive"
+              title={count === 0 ? `Matches no loaded metric. ${hint}`.trim() : hint}
+            >
+              {pattern}: {hint ? 'not a regex' : '0'}
+            </Badge>
+          );
+        }
+        if (count === null) return null;
+        return (
+          <Badge key={`${pattern}-${index}`} variant="secondary" title={`Matches ${count} loaded metrics.`}>
+            {pattern}: {count.toLocaleString()}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+};
+
+const CategoryEditor: React.FC<CategoryEditorProps> = ({
+  categories,
+  onChange,
+  loadedMetricIds,
+  uncategorized,
+  onUncategorizedChange,
+  uncategorizedCount,
+}) => {
+  const update = (id: string, changes: Partial<MetricCategory>) => {
+    onChange(categories.map(category => (category.id === id ? { ...category, ...changes } : category)));
+  };
+
+  const move = (index: number, step: number) => {
+    const reordered = categories.slice();
+    const [category] = reordered.splice(index, 1);
+    reordered.splice(index + step, 0, category);
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Lists take IDs, globs (* and ?) or /regex/ entries, comma or line separated; only entries
+        wrapped in slashes are regular expressions. A metric matching several categories belongs to
+        the one highest up.
+      </p>
+      <ul className="space-y-3">
+        {categories.map((category, index) => (
+          <li key={category.id} className="border rounded-md p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                type="color"
+                aria-label={`${category.name} color`}
+                value={category.color}
+                onChange={(e) => update(category.id, { color: e.target.value })}
+                className="p-1 h-9 w-12 shrink-0"
+              />
+              <Input
+                aria-label="Category name"
+                value={category.name}
+                onChange={(e) => update(category.id, { name: e.target.value })}
+                className="h-9"
+              />
+              <Select value={category.dash} onValueChange={(dash) => update(category.id, { dash: dash as DashStyle })}>
+                <SelectTrigger className="h-9 w-28 shrink-0" aria-label={`${category.name} line style`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DASH_STYLES) as DashStyle[]).map((dash) => (
+                    <SelectItem key={dash} value={dash}>{DASH_STYLES[dash]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+                aria-label={`Move ${category.name} up`}
+              >
+                <ArrowUp />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                disabled={index === categories.length - 1}
+                onClick={() => move(index, 1)}
+                aria-label={`Move ${category.name} down`}
+              >
+                <ArrowDown />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={() => onChange(categories.filter(c => c.id !== category.id))}
+                aria-label={`Delete ${category.name}`}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+            <Input
+              aria-label={`${category.name} description`}
+              placeholder="Description"
+              value={category.description}
+              onChange={(e) => update(category.id, { description: e.target.value })}
+              className="h-8 text-xs"
+            />
+            <Textarea
+              aria-label={`${category.name} metric IDs`}
+              placeholder="e.g., metric_A, db.*, /cache_hit_[0-9]+/"
+              value={category.metricIds}
+              onChange={(e) => update(category.id, { metricIds: e.target.value })}
+              className="min-h-[40px]"
+            />
+            <PatternMatches input={category.metricIds} loadedMetricIds={loadedMetricIds} />
+            {category.assignedMetricIds.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-muted-foreground">Assigned from the legend:</span>
+                {category.assignedMetricIds.map((metricId) => (
+                  <Badge key={metricId} variant="secondary" className="gap-1">
+                    {metricId}
+                    <button
+                      type="button"
+                      onClick={() => update(category.id, {
+                        assignedMetricIds: category.assignedMetricIds.filter(id => id !== metricId),
+                      })}
+                      aria-label={`Unassign ${metricId}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`show-absent-${category.id}`}
+                checked={category.showAbsent}
+                onCheckedChange={(checked) => update(category.id, { showAbsent: checked === true })}
+              />
+              <Label htmlFor={`show-absent-${category.id}`} className="text-xs font-normal">
+                List IDs absent from the data in the legend
+              </Label>
+            </div>
+          </li>
+        ))}
+        <li className="border border-dashed rounded-md p-3 flex items-center gap-2">
+          <Input
+            type="color"
+            aria-label="Uncategorized color"
+            value={uncategorized.color}
+            onChange={(e) => onUncategorizedChange({ ...uncategorized, color: e.target.value })}
+            className="p-1 h-9 w-12 shrink-0"
+          />
+          <span className="text-sm font-medium">Uncategorized</span>
+          <Badge variant={uncategorizedCount > 0 ? 'default' : 'secondary'} title="Metrics no category list or rule matches">
+            {uncategorizedCount.toLocaleString()}
+          </Badge>
+          <div className="flex items-center gap-2 ml-auto">
+            <Checkbox
+              id="show-uncategorized"
+              checked={uncategorized.visible}
+              onCheckedChange={(checked) => onUncategorizedChange({ ...uncategorized, visible: checked === true })}
+            />
+            <Label htmlFor="show-uncategorized" className="text-xs font-normal">Show on chart</Label>
+          </div>
+        </li>
+      </ul>
+      <Button variant="outline" size="sm" onClick={() => onChange([...categories, createCategory(categories)])}>
+        <Plus /> Add Category
+      </Button>
+    </div>
+  );
+};
+
+export default CategoryEditor;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ATTRIBUTE_FILTER_OPERATORS, type AttributeFilterOperator } from '@/lib/attributes';
+import {
+  METRIC_ID_FIELD,
+  createClassificationRule,
+  type ClassificationRule,
+  type MetricCategory,
+} from '@/lib/categories';
+
+interface ClassificationRulesProps {
+  rules: ClassificationRule[];
+  onChange: (rules: ClassificationRule[]) => void;
+  categories: MetricCategory[];
+  /** Attribute keys of the visible sources, offered as rule fields. */
+  attributeKeys: string[];
+}
+
+const ClassificationRules: React.FC<ClassificationRulesProps> = ({ rules, onChange, categories, attributeKeys }) => {
+  const update = (id: string, changes: Partial<ClassificationRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const move = (index: number, step: number) => {
+    const reordered = rules.slice();
+    const [rule] = reordered.splice(index, 1);
+    reordered.splice(index + step, 0, rule);
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Checked top to bottom for every event before the category lists; the first matching rule decides.
+        Contains, starts-with and ends-with rules without a value are ignored.
+      </p>
+      {rules.length > 0 && (
+        <ul className="space-y-2">
+          {rules.map((rule, index) => {
+            // Keys from sources that were removed stay selectable until the rule changes.
+            const fields = attributeKeys.includes(rule.field) || rule.field === METRIC_ID_FIELD
+              ? attributeKeys
+              : [rule.field, ...attributeKeys];
+            const hasCategory = categories.some(category => category.id === rule.categoryId);
+            return (
+              <li key={rule.id} className="flex flex-wrap items-center gap-2">
+                <Select value={rule.field} onValueChange={(field) => update(rule.id, { field })}>
+                  <SelectTrigger className="h-9 w-44" aria-label="Rule field">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={METRIC_ID_FIELD}>Metric ID</SelectItem>
+                    {fields.map((key) => (
+                      <SelectItem key={key} value={key}>{key}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.operator}
+                  onValueChange={(operator) => update(rule.id, { operator: operator as AttributeFilterOperator })}
+                >
+                  <SelectTrigger className="h-9 w-40" aria-label="Rule operator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ATTRIBUTE_FILTER_OPERATORS) as AttributeFilterOperator[]).map((operator) => (
+                      <SelectItem key={operator} value={operator}>{ATTRIBUTE_FILTER_OPERATORS[operator]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label="Rule value"
+                  placeholder="Value"
+                  value={rule.value}
+                  onChange={(e) => update(rule.id, { value: e.target.value })}
+                  className="h-9 w-40 flex-1"
+                />
+                <span className="text-muted-foreground">→</span>
+                <Select value={hasCategory ? rule.categoryId : ''} onValueChange={(categoryId) => update(rule.id, { categoryId })}>
+                  <SelectTrigger className="h-9 w-40" aria-label="Rule category">
+                    <SelectValue placeholder="Deleted category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  aria-label="Move rule up"
+                >
+                  <ArrowUp />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9"
+                  disabled={index === rules.length - 1}
+                  onClick={() => move(index, 1)}
+                  aria-label="Move rule down"
+                >
+                  <ArrowDown />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9"
+                  onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                  aria-label="Delete rule"
+                >
+                  <Trash2 />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={categories.length === 0}
+        onClick={() => onChange([...rules, createClassificationRule(rules, categories[0].id)])}
+      >
+        <Plus /> Add Rule
+      </Button>
+    </div>
+  );
+};
+
+export default ClassificationRules;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { CsvRecord } from '@/lib/csv';
+import type { ColumnMapping } from '@/lib/column-mapping';
+import {
+  DELIMITERS,
+  TEXT_ENCODINGS,
+  describeDialect,
+  type ImportDialect,
+  type TextEncoding,
+} from '@/lib/sniff';
+
+const PREVIEW_ROWS = 5;
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  fileName: string;
+  /** Delimited text, with column and dialect settings, rather than JSON fields. */
+  delimited: boolean;
+  dialect: ImportDialect;
+  detectedDialect: ImportDialect;
+  headers: string[];
+  rows: CsvRecord[];
+  initialMapping: Partial<ColumnMapping>;
+  /** Re-reads the preview with a different encoding, delimiter or header setting. */
+  onDialectChange: (dialect: ImportDialect) => void;
+  /** Switches the file to log-line import with a regular expression. */
+  onReadAsLog: () => void;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const columnLabel = (header: string, index: number) => header.trim() || `(column ${index + 1})`;
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  open,
+  fileName,
+  delimited,
+  dialect,
+  detectedDialect,
+  headers,
+  rows,
+  initialMapping,
+  onDialectChange,
+  onReadAsLog,
+  onConfirm,
+  onCancel,
+}) => {
+  // Select values are column indexes so duplicate or blank headers stay distinguishable.
+  const [metricIdIndex, setMetricIdIndex] = useState<string>(() => {
+    const index = headers.indexOf(initialMapping.metricIdColumn ?? '');
+    return index === -1 ? '' : String(index);
+  });
+  const [timestampIndex, setTimestampIndex] = useState<string>(() => {
+    const index = headers.indexOf(initialMapping.timestampColumn ?? '');
+    return index === -1 ? '' : String(index);
+  });
+
+  const noun = delimited ? 'column' : 'field';
+
+  const isValid = metricIdIndex !== '' && timestampIndex !== '' && metricIdIndex !== timestampIndex;
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onConfirm({
+      metricIdColumn: headers[Number(metricIdIndex)],
+      timestampColumn: headers[Number(timestampIndex)],
+    });
+  };
+
+  const highlight = (index: number) =>
+    String(index) === metricIdIndex || String(index) === timestampIndex ? 'bg-accent' : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{delimited ? 'Map Columns' : 'Map Fields'}</DialogTitle>
+          <DialogDescription>
+            Choose which {noun}s of <span className="font-medium">{fileName}</span> hold the metric ID and the timestamp.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="import-encoding">Encoding</Label>
+              <Select
+                value={dialect.encoding}
+                onValueChange={(encoding) => onDialectChange({ ...dialect, encoding: encoding as TextEncoding })}
+              >
+                <SelectTrigger id="import-encoding">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TEXT_ENCODINGS) as TextEncoding[]).map((encoding) => (
+                    <SelectItem key={encoding} value={encoding}>{TEXT_ENCODINGS[encoding]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {delimited && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="import-delimiter">Delimiter</Label>
+                  <Select value={dialect.delimiter} onValueChange={(delimiter) => onDialectChange({ ...dialect, delimiter })}>
+                    <SelectTrigger id="import-delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DELIMITERS).map(([delimiter, label]) => (
+                        <SelectItem key={delimiter} value={delimiter}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Checkbox
+                    id="import-has-header"
+                    checked={dialect.hasHeader}
+                    onCheckedChange={(checked) => onDialectChange({ ...dialect, hasHeader: checked === true })}
+                  />
+                  <Label htmlFor="import-has-header">First row is a header</Label>
+                </div>
+              </>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">Detected: {describeDialect(detectedDialect, delimited)}.</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="metric-id-column" className="capitalize">Metric ID {noun}</Label>
+            <Select value={metricIdIndex} onValueChange={setMetricIdIndex}>
+              <SelectTrigger id="metric-id-column">
+                <SelectValue placeholder={`Select a ${noun}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>{columnLabel(header, index)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timestamp-column" className="capitalize">Timestamp {noun}</Label>
+            <Select value={timestampIndex} onValueChange={setTimestampIndex}>
+              <SelectTrigger id="timestamp-column">
+                <SelectValue placeholder={`Select a ${noun}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>{columnLabel(header, index)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {metricIdIndex !== '' && metricIdIndex === timestampIndex && (
+          <p className="text-sm text-destructive">The metric ID and timestamp must come from different {noun}s.</p>
+        )}
+
+        <div className="max-h-64 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {headers.map((header, index) => (
+                  <TableHead key={index} className={highlight(index)}>{columnLabel(header, index)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                <TableRow key={row.line}>
+                  {headers.map((_, index) => (
+                    <TableCell key={index} className={highlight(index)}>{row.fields[index]}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={onReadAsLog}>Read as Log Lines</Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button onClick={handleConfirm} disabled={!isValid}>Load Data</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
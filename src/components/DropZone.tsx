@@ -0,0 +1,65 @@
+import React, { useRef, useState } from 'react';
+import { UploadCloud } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { IMPORT_ACCEPT } from '@/lib/importers';
+
+interface DropZoneProps {
+  onFiles: (files: File[]) => void;
+  height: number;
+}
+
+const DropZone: React.FC<DropZoneProps> = ({ onFiles, height }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Leaving for a child element still counts as being inside the zone.
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      className={cn(
+        "flex flex-col items-center justify-center text-muted-foreground border-2 border-dashed rounded-lg cursor-pointer transition-colors",
+        isDragging && "border-primary bg-accent text-foreground",
+      )}
+      style={{ height: `${height}px` }}
+      onClick={() => inputRef.current?.click()}
+      onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && inputRef.current?.click()}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <UploadCloud className="w-16 h-16 mb-4" />
+      <p className="text-lg font-medium">{isDragging ? 'Drop to Import' : 'Awaiting Data'}</p>
+      <p>Drop CSV, JSON, NDJSON or log files (optionally .gz or .zip) here, or click to browse.</p>
+      <input ref={inputRef} type="file" accept={IMPORT_ACCEPT} multiple className="hidden" onChange={handleInputChange} />
+    </div>
+  );
+};
+
+export default DropZone;
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadCloud } from 'lucide-react';
+
+interface FileDropOverlayProps {
+  onFiles: (files: File[]) => void;
+  /** Off while another drop target (the empty chart's DropZone) takes the files. */
+  enabled: boolean;
+}
+
+/** Accepts files dropped anywhere on the page, covering it while they are dragged over. */
+const FileDropOverlay: React.FC<FileDropOverlayProps> = ({ onFiles, enabled }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter and dragleave fire for every element crossed, so they are counted.
+  const depthRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depthRef.current++;
+      setIsDragging(true);
+    };
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) setIsDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const files = Array.from(event.dataTransfer?.files ?? []);
+      if (files.length > 0) onFiles(files);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      depthRef.current = 0;
+      setIsDragging(false);
+    };
+  }, [enabled, onFiles]);
+
+  if (!isDragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-background/80 pointer-events-none">
+      <div className="flex flex-col items-center justify-center border-2 border-dashed border-primary rounded-lg p-12 bg-accent text-foreground">
+        <UploadCloud className="w-16 h-16 mb-4" />
+        <p className="text-lg font-medium">Drop to Import</p>
+        <p className="text-muted-foreground">The files are added to the sources already loaded.</p>
+      </div>
+    </div>
+  );
+};
+
+export default FileDropOverlay;
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { CsvRecord } from '@/lib/csv';
+import {
+  DEFAULT_HAR_IMPORT_OPTIONS,
+  createHarIdFormatter,
+  harRequestFromRecord,
+  type HarImportOptions,
+} from '@/lib/har';
+
+const PREVIEW_ENTRIES = 10;
+
+interface HarImportDialogProps {
+  open: boolean;
+  fileName: string;
+  /** Preview records built by `toHarRecords`. */
+  entries: CsvRecord[];
+  onConfirm: (options: HarImportOptions) => void;
+  onCancel: () => void;
+}
+
+const HarImportDialog: React.FC<HarImportDialogProps> = ({ open, fileName, entries, onConfirm, onCancel }) => {
+  const [template, setTemplate] = useState(DEFAULT_HAR_IMPORT_OPTIONS.template);
+  const [urlPattern, setUrlPattern] = useState(DEFAULT_HAR_IMPORT_OPTIONS.urlPattern);
+
+  const requests = useMemo(() => entries.map(harRequestFromRecord), [entries]);
+
+  const preview = useMemo(() => {
+    try {
+      const formatId = createHarIdFormatter({ template, urlPattern });
+      const ids = requests.map(request => formatId);
+      return { ids, matched: ids.filter(id => id !== null).length, error: null };
+    } catch (error) {
+      return { ids: [], matched: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [requests, template, urlPattern]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Network Requests</DialogTitle>
+          <DialogDescription>
+            Each request in <span className="font-medium">{fileName}</span> becomes a start and an end event with a
+            time-to-first-byte marker in between.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="har-template">Metric ID Template</Label>
+            <Input
+              id="har-template"
+              className="font-mono text-xs"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {'{method} {host} {path} {file} {query} {status} {mime} {page}'}, plus named groups of the URL pattern.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="har-url-pattern">URL Pattern</Label>
+            <Input
+              id="har-url-pattern"
+              className="font-mono text-xs"
+              placeholder="e.g., /api/(?<endpoint>[^/?]+)"
+              value={urlPattern}
+              onChange={(e) => setUrlPattern(e.target.value)}
+            />
+            <p className={preview.error ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+              {preview.error ?? `${preview.matched} of ${requests.length} requests match; the rest are skipped.`}
+            </p>
+          </div>
+        </div>
+
+        {requests.length > 0 ? (
+          <div className="max-h-64 overflow-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric ID</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead className="text-right">TTFB (ms)</TableHead>
+                  <TableHead className="text-right">Total (ms)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.slice(0, PREVIEW_ENTRIES).map((request, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="font-medium">
+                      {preview.ids[index] ?? <span className="text-muted-foreground">skipped</span>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs max-w-xs truncate" title={request.url}>{request.url}</TableCell>
+                    <TableCell className="text-right">{Math.round(request.ttfbMs)}</TableCell>
+                    <TableCell className="text-right">{Math.round(request.totalMs)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No entries to preview; requests are read during import.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm({ template, urlPattern })} disabled={!!preview.error || !template.trim()}>
+            Load Requests
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HarImportDialog;
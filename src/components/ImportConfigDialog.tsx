@@ -0,0 +1,96 @@
+import React from 'react';
+import { saveColumnMapping, type ColumnMapping } from '@/lib/column-mapping';
+import { getImporter, type ConfigStepKey } from '@/lib/importers';
+import type { PrometheusImportOptions } from '@/lib/prometheus';
+import type { ImportDialect } from '@/lib/sniff';
+import type { PendingImport } from '@/hooks/use-metric-import';
+import ColumnMappingDialog from './ColumnMappingDialog';
+import LogPatternDialog from './LogPatternDialog';
+import SpanImportDialog from './SpanImportDialog';
+import HarImportDialog from './HarImportDialog';
+import PrometheusImportDialog from './PrometheusImportDialog';
+
+export interface ImporterConfigProps {
+  pending: PendingImport;
+  onConfirm: (config: unknown) => void;
+  onCancel: () => void;
+  /** Re-reads the preview with a different encoding, delimiter or header setting. */
+  onDialectChange: (dialect: ImportDialect) => void;
+  /** Re-reads the file with another importer, e.g. a .txt file as log lines. */
+  onImporterChange: (importerId: string) => void;
+}
+
+const FieldMappingConfig: React.FC<ImporterConfigProps> = ({
+  pending,
+  onConfirm,
+  onCancel,
+  onDialectChange,
+  onImporterChange,
+}) => (
+  <ColumnMappingDialog
+    open
+    fileName={pending.file.name}
+    delimited={getImporter(pending.importerId).delimited ?? false}
+    dialect={pending.dialect}
+    detectedDialect={pending.detectedDialect}
+    headers={pending.headers}
+    rows={pending.rows}
+    initialMapping={pending.initialConfig as Partial<ColumnMapping>}
+    onDialectChange={onDialectChange}
+    onReadAsLog={() => onImporterChange('log')}
+    onConfirm={(mapping) => {
+      saveColumnMapping(pending.headers, mapping);
+      onConfirm(mapping);
+    }}
+    onCancel={onCancel}
+  />
+);
+
+// One dialog per config step an importer can declare.
+const CONFIG_STEPS: Record<ConfigStepKey, React.FC<ImporterConfigProps>> = {
+  'field-mapping': FieldMappingConfig,
+  'log-pattern': ({ pending, onConfirm, onCancel, onImporterChange }) => (
+    <LogPatternDialog
+      open
+      fileName={pending.file.name}
+      lines={pending.rows}
+      onConfirm={(pattern) => onConfirm({ pattern })}
+      onReadAsTable={() => onImporterChange('csv')}
+      onCancel={onCancel}
+    />
+  ),
+  spans: ({ pending, onConfirm, onCancel }) => (
+    <SpanImportDialog
+      open
+      fileName={pending.file.name}
+      attributeKeys={pending.headers}
+      spans={pending.rows}
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    />
+  ),
+  har: ({ pending, onConfirm, onCancel }) => (
+    <HarImportDialog open fileName={pending.file.name} entries={pending.rows} onConfirm={onConfirm} onCancel={onCancel} />
+  ),
+  prometheus: ({ pending, onConfirm, onCancel }) => (
+    <PrometheusImportDialog
+      open
+      fileName={pending.file.name}
+      headers={pending.headers}
+      samples={pending.rows}
+      initialOptions={pending.initialConfig as Partial<PrometheusImportOptions>}
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    />
+  ),
+};
+
+/** Shows the config step of whichever importer read the pending file. */
+const ImportConfigDialog: React.FC<ImporterConfigProps> = (props) => {
+  const { configStep } = getImporter(props.pending.importerId);
+  if (!configStep) return null;
+  const ConfigStep = CONFIG_STEPS[configStep];
+  return <ConfigStep {...props} />;
+};
+
+export default ImportConfigDialog;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DIAGNOSTIC_REASONS,
+  countDiagnosticsByReason,
+  diagnosticsToCsv,
+  type DiagnosticReason,
+  type ImportDiagnostic,
+} from '@/lib/diagnostics';
+import { downloadTextFile } from '@/lib/download';
+import type { DataSource } from '@/lib/metric-data';
+
+// Rendering every row of a badly broken capture would stall the page; counts and export stay complete.
+const MAX_LISTED_ROWS = 200;
+
+interface ImportDiagnosticsPanelProps {
+  diagnostics: ImportDiagnostic[];
+  sources: DataSource[];
+}
+
+const ImportDiagnosticsPanel: React.FC<ImportDiagnosticsPanelProps> = ({ diagnostics, sources }) => {
+  const [reasonFilter, setReasonFilter] = useState<DiagnosticReason | null>(null);
+
+  const sourceNames = useMemo(() => new Map(sources.map(s => [s.id, s.name])), [sources]);
+  const counts = useMemo(() => countDiagnosticsByReason(diagnostics), [diagnostics]);
+  const rejected = useMemo(
+    () => diagnostics.filter(diagnostic => DIAGNOSTIC_REASONS[diagnostic.reason].rejected),
+    [diagnostics],
+  );
+  const listed = useMemo(
+    () => (reasonFilter ? diagnostics.filter(d => d.reason === reasonFilter) : diagnostics).slice(0, MAX_LISTED_ROWS),
+    [diagnostics, reasonFilter],
+  );
+  const listedTotal = reasonFilter ? counts.get(reasonFilter) ?? 0 : diagnostics.length;
+
+  if (diagnostics.length === 0) return null;
+
+  const handleExport = () => {
+    downloadTextFile('rejected-rows.csv', diagnosticsToCsv(rejected, sourceNames));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-lg">Import Diagnostics</h3>
+          <p className="text-sm text-muted-foreground">
+            {rejected.length.toLocaleString()} rows rejected, {(diagnostics.length - rejected.length).toLocaleString()} ignored.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={rejected.length === 0}>
+          <Download /> Export Rejected Rows
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Array.from(counts.entries()).map(([reason, count]) => (
+          <Badge
+            key={reason}
+            variant={reasonFilter === reason ? 'default' : DIAGNOSTIC_REASONS[reason].rejected ? 'destructive' : 'secondary'}
+            className="cursor-pointer"
+            onClick={() => setReasonFilter(reasonFilter === reason ? null : reason)}
+          >
+            {DIAGNOSTIC_REASONS[reason].label}: {count.toLocaleString()}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="max-h-80 overflow-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Source</TableHead>
+              <TableHead>Line</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Raw Content</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {listed.map((diagnostic, index) => (
+              <TableRow key={`${diagnostic.source}-${diagnostic.line}-${index}`}>
+                <TableCell className="whitespace-nowrap">{sourceNames.get(diagnostic.source) ?? diagnostic.source}</TableCell>
+                <TableCell>{diagnostic.line}</TableCell>
+                <TableCell title={diagnostic.detail}>{DIAGNOSTIC_REASONS[diagnostic.reason].label}</TableCell>
+                <TableCell className="font-mono text-xs max-w-md truncate" title={diagnostic.raw}>{diagnostic.raw}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {listedTotal > listed.length && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {listed.length.toLocaleString()} of {listedTotal.toLocaleString()} rows.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ImportDiagnosticsPanel;
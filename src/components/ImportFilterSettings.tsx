@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SAMPLING_MODES, type ImportFilters, type SamplingMode } from '@/lib/import-filters';
+import { findInvalidPatterns, looksLikeUnwrappedRegex, splitPatternList } from '@/lib/patterns';
+
+interface ImportFilterSettingsProps {
+  value: ImportFilters;
+  onChange: (value: ImportFilters) => void;
+}
+
+const PatternErrors: React.FC<{ input: string }> = ({ input }) => {
+  const patterns = useMemo(() => splitPatternList(input), [input]);
+  const errors = useMemo(() => findInvalidPatterns(patterns), [patterns]);
+  const unwrapped = useMemo(() => patterns.filter(looksLikeUnwrappedRegex), [patterns]);
+  if (errors.length === 0 && unwrapped.length > 0) {
+    return (
+      <p className="text-xs text-destructive">
+        Matched as globs, not regular expressions: {unwrapped.join(', ')}. Wrap an entry in slashes to use it as a regex.
+      </p>
+    );
+  }
+  if (errors.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        IDs, globs (* and ?) or /regex/, comma or line separated; only entries wrapped in slashes are regular expressions.
+      </p>
+    );
+  }
+  return (
+    <p className="text-xs text-destructive">
+      Ignored on import: {errors.map(error => `${error.pattern} (${error.message})`).join('; ')}
+    </p>
+  );
+};
+
+const ImportFilterSettings: React.FC<ImportFilterSettingsProps> = ({ value, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+    <div className="space-y-2">
+      <Label htmlFor="import-from">Import Time Range</Label>
+      <Input
+        id="import-from"
+        type="datetime-local"
+        step="1"
+        aria-label="Import from"
+        value={value.from}
+        onChange={(e) => onChange({ ...value, from: e.target.value })}
+      />
+      <Input
+        type="datetime-local"
+        step="1"
+        aria-label="Import until"
+        value={value.to}
+        onChange={(e) => onChange({ ...value, to: e.target.value })}
+      />
+      <p className="text-xs text-muted-foreground">Local time; leave empty for no bound.</p>
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="import-include">Import Metric IDs</Label>
+      <Textarea
+        id="import-include"
+        placeholder="Include, e.g., checkout.*"
+        value={value.include}
+        onChange={(e) => onChange({ ...value, include: e.target.value })}
+        className="min-h-[40px]"
+      />
+      <Textarea
+        aria-label="Exclude metric IDs"
+        placeholder="Exclude, e.g., /^debug\./"
+        value={value.exclude}
+        onChange={(e) => onChange({ ...value, exclude: e.target.value })}
+        className="min-h-[40px]"
+      />
+      <PatternErrors input={`${value.include}\n${value.exclude}`} />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="import-sampling">Import Sampling</Label>
+      <Select value={value.sampling} onValueChange={(sampling) => onChange({ ...value, sampling: sampling as SamplingMode })}>
+        <SelectTrigger id="import-sampling">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SAMPLING_MODES) as SamplingMode[]).map((mode) => (
+            <SelectItem key={mode} value={mode}>{SAMPLING_MODES[mode]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value.sampling === 'every-nth' && (
+        <Input
+          type="number"
+          min={1}
+          aria-label="Keep every Nth event"
+          value={value.every}
+          onChange={(e) => onChange({ ...value, every: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+        />
+      )}
+      {value.sampling === 'fraction' && (
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          aria-label="Percentage of events kept"
+          value={Math.round(value.fraction * 1000) / 10}
+          onChange={(e) => onChange({ ...value, fraction: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+        />
+      )}
+      <p className="text-xs text-muted-foreground">
+        Applied while files are read; rows left out are not loaded. Change before importing.
+      </p>
+    </div>
+  </div>
+);
+
+export default ImportFilterSettings;
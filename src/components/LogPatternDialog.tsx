@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { CsvRecord } from '@/lib/csv';
+import {
+  DEFAULT_LOG_PATTERN,
+  compileLogPattern,
+  deleteLogProfile,
+  loadLogProfiles,
+  logPatternGroups,
+  matchLogLine,
+  saveLogProfile,
+  type LogProfile,
+} from '@/lib/logs';
+
+const PREVIEW_LINES = 20;
+
+interface LogPatternDialogProps {
+  open: boolean;
+  fileName: string;
+  /** Preview records holding one raw line each. */
+  lines: CsvRecord[];
+  onConfirm: (pattern: string) => void;
+  /** Switches the file back to delimited-text import. */
+  onReadAsTable: () => void;
+  onCancel: () => void;
+}
+
+const countMatches = (pattern: string, lines: CsvRecord[]) => {
+  try {
+    const regex = compileLogPattern(pattern);
+    return lines.filter(line => regex.test(line.fields[0])).length;
+  } catch {
+    return 0;
+  }
+};
+
+// Starts from the saved profile that matches most of the preview, if any matches at all.
+const pickInitialProfile = (profiles: LogProfile[], lines: CsvRecord[]) => {
+  const sample = lines.slice(0, PREVIEW_LINES);
+  let best: LogProfile | undefined;
+  let bestCount = 0;
+  profiles.forEach(profile => {
+    const count = countMatches(profile.pattern, sample);
+    if (count > bestCount) {
+      best = profile;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const LogPatternDialog: React.FC<LogPatternDialogProps> = ({
+  open,
+  fileName,
+  lines,
+  onConfirm,
+  onReadAsTable,
+  onCancel,
+}) => {
+  const [profiles, setProfiles] = useState<LogProfile[]>(loadLogProfiles);
+  const [initialProfile] = useState(() => pickInitialProfile(profiles, lines));
+  const [profileName, setProfileName] = useState(initialProfile?.name ?? '');
+  const [pattern, setPattern] = useState(initialProfile?.pattern ?? DEFAULT_LOG_PATTERN);
+
+  const previewLines = useMemo(() => lines.slice(0, PREVIEW_LINES), [lines]);
+
+  const compiled = useMemo(() => {
+    try {
+      return { regex: compileLogPattern(pattern), error: null };
+    } catch (error) {
+      return { regex: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [pattern]);
+
+  const groups = useMemo(() => {
+    const names = logPatternGroups(pattern);
+    return ['id', 'ts', ...names.filter(name => name !== 'id' && name !== 'ts')];
+  }, [pattern]);
+
+  const matches = useMemo(
+    () => previewLines.map(line => (compiled.regex ? matchLogLine(compiled.regex, line.fields[0]) : null)),
+    [compiled, previewLines],
+  );
+  const matchCount = matches.filter(Boolean).length;
+
+  const handleSelectProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setProfileName(profile.name);
+    setPattern(profile.pattern);
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim() || compiled.error) return;
+    setProfiles(saveLogProfile({ name: profileName.trim(), pattern }));
+  };
+
+  const handleDeleteProfile = () => {
+    setProfiles(deleteLogProfile(profileName.trim()));
+  };
+
+  const isSavedProfile = profiles.some(p => p.name === profileName.trim() && p.pattern === pattern);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Parse Log Lines</DialogTitle>
+          <DialogDescription>
+            Write a regular expression for the lines of <span className="font-medium">{fileName}</span>. Named
+            groups <code>id</code> and <code>ts</code> become the metric ID and timestamp; other named groups become
+            attributes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="log-profile">Saved Profile</Label>
+            <Select
+              value={profiles.some(p => p.name === profileName) ? profileName : ''}
+              onValueChange={handleSelectProfile}
+              disabled={profiles.length === 0}
+            >
+              <SelectTrigger id="log-profile">
+                <SelectValue placeholder={profiles.length === 0 ? 'No saved profiles' : 'Select a profile'} />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="log-profile-name">Profile Name</Label>
+            <div className="flex gap-2">
+              <Input
+                id="log-profile-name"
+                placeholder="e.g., API server"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleSaveProfile}
+                disabled={!profileName.trim() || !!compiled.error || isSavedProfile}
+                title="Save profile"
+              >
+                <Save />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleDeleteProfile}
+                disabled={!profiles.some(p => p.name === profileName.trim())}
+                title="Delete profile"
+              >
+                <Trash2 />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="log-pattern">Pattern</Label>
+          <Input
+            id="log-pattern"
+            className="font-mono text-xs"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+          />
+          <p className={compiled.error ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+            {compiled.error ?? `${matchCount} of ${previewLines.length} preview lines match.`}
+          </p>
+        </div>
+
+        <div className="max-h-72 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Line</TableHead>
+                {groups.map((group) => <TableHead key={group}>{group}</TableHead>)}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewLines.map((line, index) => {
+                const match = matches[index];
+                return (
+                  <TableRow key={line.line}>
+                    <TableCell>{line.line}</TableCell>
+                    {match ? (
+                      groups.map((group) => (
+                        <TableCell key={group} className="font-mono text-xs">{match.groups[group]}</TableCell>
+                      ))
+                    ) : (
+                      <TableCell
+                        colSpan={groups.length}
+                        className="font-mono text-xs text-muted-foreground max-w-md truncate"
+                        title={line.fields[0]}
+                      >
+                        {line.fields[0]}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={onReadAsTable}>Read as Delimited Text</Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button onClick={() => onConfirm(pattern)} disabled={!!compiled.error || matchCount === 0}>Load Data</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LogPatternDialog;
@@ -8,38 +8,98 @@ import {
   Line,
   TooltipProps,
   CartesianGrid,
+  ReferenceLine,
 } from 'recharts';
-import { parseISO, format } from 'date-fns';
+import { format } from 'date-fns';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
-import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { useMetricImport } from '@/hooks/use-metric-import';
+import { useUrlImport } from '@/hooks/use-url-import';
 import { cn } from '@/lib/utils';
+import { IMPORT_ACCEPT } from '@/lib/importers';
+import type { DiagnosticReason, ImportDiagnostic } from '@/lib/diagnostics';
+import type { AttributeValue, MetricData } from '@/lib/metric-data';
+import { formatCsvRow } from '@/lib/csv';
+import { formatAttributeValue, isActiveComparison, matchesAttributeFilter, type AttributeFilter } from '@/lib/attributes';
+import { metricDataToCsv } from '@/lib/export';
+import { downloadTextFile } from '@/lib/download';
+import { createTimestampParser, DEFAULT_TIMESTAMP_OPTIONS, type TimestampOptions } from '@/lib/timestamps';
+import {
+  DASH_ARRAYS,
+  DEFAULT_CATEGORIES,
+  DEFAULT_UNCATEGORIZED_BUCKET,
+  UNCATEGORIZED_ID,
+  assignMetricToCategory,
+  classifyEvent,
+  compileCategories,
+  listedMetricIds,
+  uncategorizedCategory,
+  type ClassificationRule,
+  type DashStyle,
+  type MetricCategory,
+  type UncategorizedBucket,
+} from '@/lib/categories';
+import { DEFAULT_PAIRING_SETTINGS, pairKey, pairMetrics, type PairingSettings } from '@/lib/pairing';
+import { computeAlignmentOffsets, findSharedMetricIds } from '@/lib/clock-skew';
+import { DEFAULT_IMPORT_FILTERS, type ImportFilters } from '@/lib/import-filters';
+import { SPAN_EVENT_ATTRIBUTE, SPAN_ID_ATTRIBUTE } from '@/lib/otlp';
+import ImportConfigDialog from './ImportConfigDialog';
+import SourceList from './SourceList';
+import CategoryEditor from './CategoryEditor';
+import ClassificationRules from './ClassificationRules';
+import SourceAlignment from './SourceAlignment';
+import ImportDiagnosticsPanel from './ImportDiagnosticsPanel';
+import PairingPanel from './PairingPanel';
+import TimestampSettings from './TimestampSettings';
+import ImportFilterSettings from './ImportFilterSettings';
+import AttributeControls from './AttributeControls';
+import DropZone from './DropZone';
+import FileDropOverlay from './FileDropOverlay';
+import PasteDataDialog from './PasteDataDialog';
+import UrlLoader from './UrlLoader';
 import { Separator } from './ui/separator';
-import { UploadCloud } from 'lucide-react';
-
-interface MetricData {
-  METRICID: string;
-  TIMESTAMP: string;
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { ClipboardPaste, Tag } from 'lucide-react';
 
 interface ProcessedLine {
   metricId: string;
+  /** Name of the source the event was loaded from. */
+  source: string;
+  /** Value of the split-by attribute, when events are split by one. */
+  group?: string;
+  attributes: Record<string, AttributeValue>;
   timestamp: Date;
   color: string;
+  /** Stroke of the category the metric belongs to, used for starts and single events. */
+  dash: DashStyle;
   label: string;
   isSolid: boolean;
+  /** A point-in-time event (e.g. a trace instant) rather than a start or end. */
+  isInstant?: boolean;
   y: number;
 }
 
 interface UniqueMetric {
   id: string;
   color: string;
+  /** Category of the metric's first drawn event. */
+  categoryId: string;
+  /** Names of the visible sources the metric appears in. */
+  sources: string[];
 }
 
+const MAX_TOOLTIP_ATTRIBUTES = 12;
+
 const CustomDot = ({ cx, cy, payload, plotAreaHeight, selectedMetricIds, hoveredMetricId }: any) => {
-  const { color, isSolid, metricId } = payload;
+  const { color, dash, isSolid, isInstant, metricId } = payload;
 
   const isClicked = selectedMetricIds.includes(metricId);
   const isHovered = hoveredMetricId === metricId;
@@ -50,7 +110,7 @@ const CustomDot = ({ cx, cy, payload, plotAreaHeight, selectedMetricIds, hovered
 
   // The 'cy' prop gives the y-coordinate of the data point on the chart.
   // We draw the line from the top of the plot area down to this point.
-  return (
+  const line = (
     <line
       x1={cx}
       y1={0}
@@ -59,9 +119,22 @@ const CustomDot = ({ cx, cy, payload, plotAreaHeight, selectedMetricIds, hovered
       stroke={color}
       strokeWidth={isActive ? 3 : 1.5}
       strokeOpacity={isDimmed ? 0.2 : 1}
-      strokeDasharray={isSolid ? undefined : "4 4"}
+      strokeDasharray={isInstant ? "1 3" : isSolid ? undefined : DASH_ARRAYS[dash as DashStyle]}
     />
   );
+  if (!isInstant) return line;
+
+  // Instants get a diamond at the top so they stand apart from start lines.
+  return (
+    <g>
+      {line}
+      <path
+        d={`M ${cx} 2 l 5 5 l -5 5 l -5 -5 Z`}
+        fill={color}
+        fillOpacity={isDimmed ? 0.2 : 1}
+      />
+    </g>
+  );
 };
 
 const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
@@ -73,6 +146,17 @@ const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
         <p className="text-sm text-muted-foreground mt-1">
           {format(data.timestamp, 'yyyy-MM-dd HH:mm:ss.SSS')}
         </p>
+        <p className="text-xs text-muted-foreground mt-1">Source: {data.source}</p>
+        {Object.keys(data.attributes).length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 text-xs mt-2 max-w-xs">
+            {Object.entries(data.attributes).slice(0, MAX_TOOLTIP_ATTRIBUTES).map(([key, value]) => (
+              <React.Fragment key={key}>
+                <dt className="text-muted-foreground truncate">{key}</dt>
+                <dd className="truncate">{formatAttributeValue(value)}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
       </div>
     );
   }
@@ -80,159 +164,183 @@ const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
 };
 
 const MetricGraph: React.FC = () => {
-  const [csvData, setCsvData] = useState<MetricData[]>([]);
-  const [expectedMetricsInput, setExpectedMetricsInput] = useState<string>('');
-  const [actualMetricsInput, setActualMetricsInput] = useState<string>('');
-  const [noiseMetricsInput, setNoiseMetricsInput] = useState<string>(''); // New state
-  const [missingMetricsInput, setMissingMetricsInput] = useState<string>(''); // New state
-
-  const [expectedColor, setExpectedColor] = useState<string>('#3b82f6');
-  const [actualColor, setActualColor] = useState<string>('#ef4444');
-  const [noiseColor, setNoiseColor] = useState<string>('#f59e0b'); // New state
-  const [missingColor, setMissingColor] = useState<string>('#6b7280'); // New state
+  const [timestampOptions, setTimestampOptions] = useState<TimestampOptions>(DEFAULT_TIMESTAMP_OPTIONS);
+  const [importFilters, setImportFilters] = useState<ImportFilters>(DEFAULT_IMPORT_FILTERS);
+  const {
+    csvData,
+    sources,
+    importDiagnostics,
+    ingests,
+    pendingImport,
+    importFiles,
+    confirmImport,
+    changePendingDialect,
+    changePendingImporter,
+    skipPendingImport,
+    cancelIngest,
+    removeSource,
+    toggleSourceVisibility,
+    setSourceOffsets,
+  } = useMetricImport(importFilters, timestampOptions);
+  const { download, loadUrl } = useUrlImport(importFiles);
+  const [categories, setCategories] = useState<MetricCategory[]>(DEFAULT_CATEGORIES);
+  const [classificationRules, setClassificationRules] = useState<ClassificationRule[]>([]);
+  const [pairingSettings, setPairingSettings] = useState<PairingSettings>(DEFAULT_PAIRING_SETTINGS);
+  const [uncategorizedBucket, setUncategorizedBucket] = useState<UncategorizedBucket>(DEFAULT_UNCATEGORIZED_BUCKET);
+
+  const [isPasteDialogOpen, setIsPasteDialogOpen] = useState(false);
+  const [groupBy, setGroupBy] = useState<string | null>(null);
+  const [attributeFilter, setAttributeFilter] = useState<AttributeFilter>({ key: '', operator: 'equals', value: '' });
 
   const [selectedMetricIds, setSelectedMetricIds] = useState<string[]>([]);
   const [hoveredMetricId, setHoveredMetricId] = useState<string | null>(null);
-  const { toast } = useToast();
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const text = e.target?.result as string;
-        try {
-          const parsed = parseCsv(text);
-          setCsvData(parsed);
-          toast({
-            title: "CSV Uploaded",
-            description: "Metric data loaded successfully.",
-          });
-        } catch (error) {
-          console.error("Error parsing CSV:", error);
-          toast({
-            title: "Error",
-            description: "Failed to parse CSV file. Please check the format.",
-            variant: "destructive",
-          });
-        }
-      };
-      reader.readAsText(file);
-    }
+    const files = Array.from(event.target.files ?? []);
+    // Clear the input so picking the same files again re-triggers the mapping step.
+    event.target.value = '';
+    importFiles(files);
   };
 
-  const parseCsv = (csvString: string): MetricData[] => {
-    const lines = csvString.trim().split('\n');
-    if (lines.length === 0) return [];
+  const compiledCategories = useMemo(() => compileCategories(categories), [categories]);
+  const loadedMetricIds = useMemo(() => Array.from(new Set(csvData.map(row => row.METRICID))), [csvData]);
 
-    const headers = lines[0].split(',').map(h => h.trim());
-    const metricIdIndex = headers.indexOf('METRICID');
-    const timestampIndex = headers.indexOf('TIMESTAMP');
+  const parseTimestamp = useMemo(() => createTimestampParser(timestampOptions), [timestampOptions]);
 
-    if (metricIdIndex === -1 || timestampIndex === -1) {
-      throw new Error("CSV must contain 'METRICID' and 'TIMESTAMP' columns.");
-    }
+  const sourceNames = useMemo(() => new Map(sources.map(s => [s.id, s.name])), [sources]);
+  const sourceOffsets = useMemo(() => new Map(sources.map(s => [s.id, s.offsetMs])), [sources]);
+  const anchorMetricIds = useMemo(() => findSharedMetricIds(csvData), [csvData]);
 
-    const data: MetricData[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      if (values.length > Math.max(metricIdIndex, timestampIndex)) {
-        data.push({
-          METRICID: values[metricIdIndex],
-          TIMESTAMP: values[timestampIndex],
-        });
-      }
-    }
-    return data;
+  const handleAlignSources = (anchorMetricId: string, referenceSourceId: string) => {
+    setSourceOffsets(computeAlignmentOffsets(csvData, sources, anchorMetricId, parseTimestamp, referenceSourceId));
   };
 
-  const expectedMetrics = useMemo(() => {
-    return new Set(expectedMetricsInput.split(',').map(s => s.trim()).filter(Boolean));
-  }, [expectedMetricsInput]);
-
-  const actualMetrics = useMemo(() => {
-    return new Set(actualMetricsInput.split(',').map(s => s.trim()).filter(Boolean));
-  }, [actualMetricsInput]);
-
-  const noiseMetrics = useMemo(() => { // New memoized set
-    return new Set(noiseMetricsInput.split(',').map(s => s.trim()).filter(Boolean));
-  }, [noiseMetricsInput]);
+  const attributeKeys = useMemo(() => {
+    const keys = new Set<string>();
+    sources.filter(s => s.visible).forEach(s => s.attributeKeys.forEach(key => keys.add(key)));
+    return Array.from(keys);
+  }, [sources]);
+
+  // Rows from visible sources that pass the attribute filter; both the chart and the export use these.
+  const visibleRows = useMemo(() => {
+    const visibleSourceIds = new Set(sources.filter(s => s.visible).map(s => s.id));
+    const filterActive = !!attributeFilter.key && isActiveComparison(attributeFilter.operator, attributeFilter.value);
+    return csvData.filter(item =>
+      visibleSourceIds.has(item.SOURCE) && (!filterActive || matchesAttributeFilter(item, attributeFilter)),
+    );
+  }, [csvData, sources, attributeFilter]);
 
-  const missingMetrics = useMemo(() => { // New memoized set
-    return new Set(missingMetricsInput.split(',').map(s => s.trim()).filter(Boolean));
-  }, [missingMetricsInput]);
+  const handleExportEvents = () => {
+    downloadTextFile('metric-events.csv', metricDataToCsv(visibleRows, attributeKeys, sourceNames));
+  };
 
-  const { processedGraphData, uniqueMetrics } = useMemo(() => {
-    const metricMap = new Map<string, Date[]>();
+  const { processedGraphData, uniqueMetrics, uncategorizedCount, processingDiagnostics } = useMemo(() => {
+    // Events are grouped per metric, source and category (and split-by value)
+    // so each keeps its own start/end pair.
+    const metricMap = new Map<string, {
+      metricId: string;
+      source: string;
+      group?: string;
+      category: MetricCategory;
+      events: { timestamp: Date; item: MetricData }[];
+    }>();
     const allCsvMetricIds = new Set<string>(); // To track all metric IDs present in CSV
+    const uncategorizedMetricIds = new Set<string>();
+    const uncategorized = uncategorizedCategory(uncategorizedBucket);
+    const diagnostics: ImportDiagnostic[] = [];
+
+    const reportRow = (item: MetricData, reason: DiagnosticReason, detail: string) => {
+      diagnostics.push({
+        source: item.SOURCE,
+        line: item.LINE,
+        // Rows keep no source text, so the report lists every mapped value instead.
+        raw: formatCsvRow([
+          item.METRICID,
+          item.TIMESTAMP,
+          ...Object.entries(item.ATTRIBUTES).map(([key, value]) => `${key}=${formatAttributeValue(value)}`),
+        ]),
+        reason,
+        detail,
+      });
+    };
 
-    csvData.forEach(item => {
-      const timestamp = parseISO(item.TIMESTAMP);
-      if (isNaN(timestamp.getTime())) {
-        console.warn(`Invalid timestamp for METRICID ${item.METRICID}: ${item.TIMESTAMP}`);
+    visibleRows.forEach(item => {
+      const source = sourceNames.get(item.SOURCE) ?? item.SOURCE;
+      const group = groupBy ? formatAttributeValue(item.ATTRIBUTES[groupBy]) : undefined;
+      const parsed = parseTimestamp(item.TIMESTAMP);
+      if (!parsed) {
+        reportRow(item, 'invalid-timestamp', `'${item.TIMESTAMP}' is not a recognised timestamp.`);
         return;
       }
-      if (!metricMap.has(item.METRICID)) {
-        metricMap.set(item.METRICID, []);
-      }
-      metricMap.get(item.METRICID)?.push(timestamp);
+      // Clock-skew correction is applied here, so pairing, sorting and the axis all see corrected times.
+      const offsetMs = sourceOffsets.get(item.SOURCE) ?? 0;
+      const timestamp = offsetMs ? new Date(parsed.getTime() + offsetMs) : parsed;
       allCsvMetricIds.add(item.METRICID);
+
+      // Rules look at single events, so one metric's events can land in different categories.
+      let category = classifyEvent(compiledCategories, classificationRules, item);
+      if (!category) {
+        uncategorizedMetricIds.add(item.METRICID);
+        if (!uncategorizedBucket.visible) {
+          reportRow(item, 'uncategorized', `'${item.METRICID}' is not listed in any category.`);
+          return;
+        }
+        category = uncategorized;
+      }
+
+      // Trace events pair up per span, so spans sharing a name stay separate.
+      const spanId = formatAttributeValue(item.ATTRIBUTES[SPAN_ID_ATTRIBUTE]);
+      const key = `${item.SOURCE}\u0000${item.METRICID}\u0000${group ?? ''}\u0000${spanId}\u0000${category.id}`;
+      if (!metricMap.has(key)) {
+        metricMap.set(key, { metricId: item.METRICID, source, group, category, events: [] });
+      }
+      metricMap.get(key)?.events.push({ timestamp, item });
     });
 
     const graphElements: ProcessedLine[] = [];
     const uniqueMetricsSet = new Map<string, UniqueMetric>();
 
     // Process metrics found in CSV data
-    metricMap.forEach((timestamps, metricId) => {
-      timestamps.sort((a, b) => a.getTime() - b.getTime());
-
-      let color = '';
-      let baseLabel = '';
-
-      // Determine category precedence: Expected > Actual > Missing (if found in CSV) > Noise
-      if (expectedMetrics.has(metricId)) {
-        color = expectedColor;
-        baseLabel = `Expected: ${metricId}`;
-      } else if (actualMetrics.has(metricId)) {
-        color = actualColor;
-        baseLabel = `Actual: ${metricId}`;
-      } else if (missingMetrics.has(metricId)) { // If a "missing" metric is actually found in CSV
-        color = missingColor;
-        baseLabel = `Missing (Found): ${metricId}`;
-      } else if (noiseMetrics.has(metricId)) {
-        color = noiseColor;
-        baseLabel = `Noise: ${metricId}`;
-      } else {
-        // If a metric is in CSV but not in any defined category, skip it for now
-        return;
-      }
-      
+    metricMap.forEach(({ metricId, source, group, category, events }) => {
+      events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      const timestamps = events.map(event => event.timestamp);
+      const { color, dash } = category;
+      let baseLabel = `${category.name}${category.showAbsent ? ' (Found)' : ''}: ${metricId}`;
+
       if (!uniqueMetricsSet.has(metricId)) {
-        uniqueMetricsSet.set(metricId, { id: metricId, color });
+        uniqueMetricsSet.set(metricId, { id: metricId, color, categoryId: category.id, sources: [] });
+      }
+      const metricSources = uniqueMetricsSet.get(metricId)?.sources;
+      if (metricSources && !metricSources.includes(source)) metricSources.push(source);
+      if (group !== undefined) {
+        baseLabel = `${baseLabel} [${groupBy}=${group}]`;
       }
 
+      const eventFields = (index: number) => ({ metricId, source, group, dash, attributes: events[index].item.ATTRIBUTES });
       if (timestamps.length === 1) {
-        graphElements.push({ metricId, timestamp: timestamps[0], color, label: baseLabel, isSolid: false, y: 0 });
+        const isInstant = events[0].item.ATTRIBUTES[SPAN_EVENT_ATTRIBUTE] === 'instant';
+        graphElements.push({ ...eventFields(0), timestamp: timestamps[0], color, label: baseLabel, isSolid: false, isInstant, y: 0 });
       } else if (timestamps.length >= 2) {
-        if (timestamps.length > 2) {
-          console.warn(`METRICID ${metricId} has ${timestamps.length} timestamps. Using oldest and latest.`);
-        }
+        events.slice(1, -1).forEach(({ item }) => reportRow(
+          item,
+          'extra-timestamps',
+          `Only the oldest and latest of ${events.length} timestamps for '${metricId}' are drawn.`,
+        ));
         const oldest = timestamps[0];
         const latest = timestamps[timestamps.length - 1];
-        graphElements.push({ metricId, timestamp: oldest, color, label: `${baseLabel} (start)`, isSolid: false, y: 0 });
-        graphElements.push({ metricId, timestamp: latest, color, label: `${baseLabel} (end)`, isSolid: true, y: 0 });
+        graphElements.push({ ...eventFields(0), timestamp: oldest, color, label: `${baseLabel} (start)`, isSolid: false, y: 0 });
+        graphElements.push({ ...eventFields(events.length - 1), timestamp: latest, color, label: `${baseLabel} (end)`, isSolid: true, y: 0 });
       }
     });
 
-    // Add "truly missing" metrics (those in missingMetricsInput but NOT in csvData)
-    missingMetrics.forEach(metricId => {
-      if (!allCsvMetricIds.has(metricId)) {
-        // For truly missing metrics, we can't plot them on the timeline.
-        // We'll just add them to uniqueMetricsSet for the legend.
-        if (!uniqueMetricsSet.has(metricId)) {
-          uniqueMetricsSet.set(metricId, { id: metricId, color: missingColor });
+    // Metrics listed in a category that shows absent IDs but not in csvData
+    // can't be plotted; they only get a legend entry.
+    categories.filter(category => category.showAbsent).forEach(category => {
+      listedMetricIds(category).forEach(metricId => {
+        if (!allCsvMetricIds.has(metricId) && !uniqueMetricsSet.has(metricId)) {
+          uniqueMetricsSet.set(metricId, { id: metricId, color: category.color, categoryId: category.id, sources: [] });
         }
-      }
+      });
     });
     
     graphElements.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -240,8 +348,27 @@ const MetricGraph: React.FC = () => {
     return {
       processedGraphData: graphElements,
       uniqueMetrics: Array.from(uniqueMetricsSet.values()).sort((a, b) => a.id.localeCompare(b.id)),
+      uncategorizedCount: uncategorizedMetricIds.size,
+      processingDiagnostics: diagnostics,
     };
-  }, [csvData, expectedMetrics, actualMetrics, noiseMetrics, missingMetrics, expectedColor, actualColor, noiseColor, missingColor]);
+  }, [visibleRows, sourceNames, sourceOffsets, groupBy, parseTimestamp, categories, compiledCategories, classificationRules, uncategorizedBucket]);
+
+  const diagnostics = useMemo(
+    () => importDiagnostics.concat(processingDiagnostics),
+    [importDiagnostics, processingDiagnostics],
+  );
+
+  const metricPairs = useMemo(() => {
+    if (!pairingSettings.enabled) return [];
+    // processedGraphData is sorted by time, as pairMetrics expects.
+    return pairMetrics(pairingSettings, processedGraphData.map(line => ({
+      metricId: line.metricId,
+      source: line.source,
+      group: line.group,
+      kind: line.isSolid ? 'end' : 'start',
+      timestamp: line.timestamp,
+    })));
+  }, [processedGraphData, pairingSettings]);
 
   const chartDomain = useMemo(() => {
     if (processedGraphData.length === 0) return [0, 1];
@@ -284,6 +411,7 @@ const MetricGraph: React.FC = () => {
 
   return (
     <Card className="w-full mx-auto">
+      <FileDropOverlay onFiles={importFiles} enabled={processedGraphData.length > 0} />
       <CardHeader>
         <CardTitle>Configuration</CardTitle>
         <CardDescription>Upload your data and define the metrics and colors you want to track.</CardDescription>
@@ -291,46 +419,64 @@ const MetricGraph: React.FC = () => {
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="space-y-2">
-            <Label htmlFor="csv-upload">1. Upload CSV File</Label>
-            <Input id="csv-upload" type="file" accept=".csv" onChange={handleFileUpload} />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="expected-metrics">2. Expected Metric IDs</Label>
-            <Textarea id="expected-metrics" placeholder="e.g., metric_A,metric_B" value={expectedMetricsInput} onChange={(e) => setExpectedMetricsInput(e.target.value)} className="min-h-[40px]" />
+            <Label htmlFor="csv-upload">1. Upload or Link CSV / JSON Files</Label>
+            <div className="flex gap-2">
+              <Input id="csv-upload" type="file" accept={IMPORT_ACCEPT} multiple onChange={handleFileUpload} />
+              <Button variant="outline" onClick={() => setIsPasteDialogOpen(true)}>
+                <ClipboardPaste /> Paste
+              </Button>
+            </div>
+            <UrlLoader download={download} onLoad={loadUrl} />
+            <SourceList
+              sources={sources}
+              ingests={ingests}
+              onToggleVisibility={toggleSourceVisibility}
+              onCancelIngest={cancelIngest}
+              onRemove={removeSource}
+              onOffsetChange={(sourceId, offsetMs) => setSourceOffsets(new Map([[sourceId, offsetMs]]))}
+            />
+            <SourceAlignment sources={sources} anchorMetricIds={anchorMetricIds} onAlign={handleAlignSources} />
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="actual-metrics">3. Actual Metric IDs</Label>
-            <Textarea id="actual-metrics" placeholder="e.g., metric_C,metric_D" value={actualMetricsInput} onChange={(e) => setActualMetricsInput(e.target.value)} className="min-h-[40px]" />
+          <div className="space-y-2 md:col-span-2">
+            <Label>2. Metric Categories</Label>
+            <CategoryEditor
+              categories={categories}
+              onChange={setCategories}
+              loadedMetricIds={loadedMetricIds}
+              uncategorized={uncategorizedBucket}
+              onUncategorizedChange={setUncategorizedBucket}
+              uncategorizedCount={uncategorizedCount}
+            />
           </div>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
-            <div className="space-y-2">
-                <Label htmlFor="noise-metrics">4. Noise Metric IDs</Label>
-                <Textarea id="noise-metrics" placeholder="e.g., metric_E,metric_F" value={noiseMetricsInput} onChange={(e) => setNoiseMetricsInput(e.target.value)} className="min-h-[40px]" />
-            </div>
-            <div className="space-y-2">
-                <Label htmlFor="missing-metrics">5. Missing Metric IDs</Label>
-                <Textarea id="missing-metrics" placeholder="e.g., metric_G,metric_H" value={missingMetricsInput} onChange={(e) => setMissingMetricsInput(e.target.value)} className="min-h-[40px]" />
-            </div>
+        <div className="space-y-2 mt-4">
+          <Label>3. Classification Rules</Label>
+          <ClassificationRules
+            rules={classificationRules}
+            onChange={setClassificationRules}
+            categories={categories}
+            attributeKeys={attributeKeys}
+          />
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mt-4">
-            <div className="space-y-2">
-                <Label htmlFor="expected-color">Expected Metric Color</Label>
-                <Input id="expected-color" type="color" value={expectedColor} onChange={(e) => setExpectedColor(e.target.value)} className="p-1 h-10 w-full"/>
-            </div>
-            <div className="space-y-2">
-                <Label htmlFor="actual-color">Actual Metric Color</Label>
-                <Input id="actual-color" type="color" value={actualColor} onChange={(e) => setActualColor(e.target.value)} className="p-1 h-10 w-full"/>
-            </div>
-            <div className="space-y-2">
-                <Label htmlFor="noise-color">Noise Metric Color</Label>
-                <Input id="noise-color" type="color" value={noiseColor} onChange={(e) => setNoiseColor(e.target.value)} className="p-1 h-10 w-full"/>
-            </div>
-            <div className="space-y-2">
-                <Label htmlFor="missing-color">Missing Metric Color</Label>
-                <Input id="missing-color" type="color" value={missingColor} onChange={(e) => setMissingColor(e.target.value)} className="p-1 h-10 w-full"/>
-            </div>
+        <div className="mt-4">
+          <TimestampSettings value={timestampOptions} onChange={setTimestampOptions} sample={csvData[0]?.TIMESTAMP} />
+        </div>
+        <div className="mt-4">
+          <ImportFilterSettings value={importFilters} onChange={setImportFilters} />
         </div>
+        {attributeKeys.length > 0 && (
+          <div className="mt-4">
+            <AttributeControls
+              attributeKeys={attributeKeys}
+              groupBy={groupBy}
+              onGroupByChange={setGroupBy}
+              filter={attributeFilter}
+              onFilterChange={setAttributeFilter}
+              onExport={handleExportEvents}
+              canExport={visibleRows.length > 0}
+            />
+          </div>
+        )}
       </CardContent>
       
       <Separator className="my-4" />
@@ -366,6 +512,19 @@ const MetricGraph: React.FC = () => {
                       position={{ y: 0 }}
                       isAnimationActive={false}
                     />
+                    {metricPairs.map((pair, index) => pair.expected && pair.actual && (
+                      <ReferenceLine
+                        key={pairKey(pair)}
+                        // Staggered so connectors between nearby pairs do not overlap.
+                        segment={[
+                          { x: pair.expected.getTime(), y: 0.9 - (index % 8) * 0.08 },
+                          { x: pair.actual.getTime(), y: 0.9 - (index % 8) * 0.08 },
+                        ]}
+                        stroke={pair.exceedsTolerance ? '#dc2626' : '#16a34a'}
+                        strokeWidth={2}
+                        ifOverflow="extendDomain"
+                      />
+                    ))}
                     <Line
                       dataKey="y"
                       stroke="transparent"
@@ -376,11 +535,7 @@ const MetricGraph: React.FC = () => {
                 </ResponsiveContainer>
               </div>
             ) : (
-              <div className="flex flex-col items-center justify-center text-muted-foreground border-2 border-dashed rounded-lg" style={{ height: `${chartHeight}px` }}>
-                <UploadCloud className="w-16 h-16 mb-4" />
-                <p className="text-lg font-medium">Awaiting Data</p>
-                <p>Upload a CSV file to begin visualization.</p>
-              </div>
+              <DropZone onFiles={importFiles} height={chartHeight} />
             )}
           </div>
           <div className="lg:col-span-1 border-l pl-4">
@@ -404,7 +559,42 @@ const MetricGraph: React.FC = () => {
                       className="w-3 h-3 rounded-full mr-3 shrink-0"
                       style={{ backgroundColor: metric.color }}
                     ></span>
-                    <span className="truncate text-sm font-medium">{metric.id}</span>
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{metric.id}</p>
+                      {sources.length > 1 && metric.sources.length > 0 && (
+                        <p className="truncate text-xs text-muted-foreground" title={metric.sources.join(', ')}>
+                          {metric.sources.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    {metric.categoryId === UNCATEGORIZED_ID && categories.length > 0 && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 ml-auto shrink-0"
+                            aria-label={`Assign ${metric.id} to a category`}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <Tag />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        {/* The menu is portalled, but its clicks still bubble to the legend entry. */}
+                        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                          <DropdownMenuLabel>Assign to</DropdownMenuLabel>
+                          {categories.map((category) => (
+                            <DropdownMenuItem
+                              key={category.id}
+                              onSelect={() => setCategories(prev => assignMetricToCategory(prev, category.id, metric.id))}
+                            >
+                              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+                              {category.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -412,6 +602,37 @@ const MetricGraph: React.FC = () => {
           </div>
         </div>
       </CardContent>
+      {processedGraphData.length > 0 && (
+        <>
+          <Separator className="my-4" />
+          <CardContent>
+            <PairingPanel settings={pairingSettings} onChange={setPairingSettings} pairs={metricPairs} />
+          </CardContent>
+        </>
+      )}
+      {diagnostics.length > 0 && (
+        <>
+          <Separator className="my-4" />
+          <CardContent>
+            <ImportDiagnosticsPanel diagnostics={diagnostics} sources={sources} />
+          </CardContent>
+        </>
+      )}
+      <PasteDataDialog
+        open={isPasteDialogOpen}
+        onOpenChange={setIsPasteDialogOpen}
+        onSubmit={(file) => importFiles([file])}
+      />
+      {pendingImport && (
+        <ImportConfigDialog
+          key={`${pendingImport.file.name}:${pendingImport.file.lastModified}:${pendingImport.importerId}:${JSON.stringify(pendingImport.dialect)}`}
+          pending={pendingImport}
+          onConfirm={confirmImport}
+          onCancel={skipPendingImport}
+          onDialectChange={changePendingDialect}
+          onImporterChange={changePendingImporter}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,177 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  PAIRING_MODES,
+  isNamePattern,
+  pairKey,
+  type MetricPair,
+  type PairingMode,
+  type PairingSettings,
+} from '@/lib/pairing';
+
+interface PairingPanelProps {
+  settings: PairingSettings;
+  onChange: (settings: PairingSettings) => void;
+  pairs: MetricPair[];
+}
+
+// Noisy metrics can yield thousands of pairs; the table only renders the first ones.
+const MAX_TABLE_ROWS = 200;
+
+const formatTime = (date: Date | undefined) => (date ? format(date, 'HH:mm:ss.SSS') : '—');
+
+const formatDelta = (deltaMs: number) => `${deltaMs > 0 ? '+' : ''}${deltaMs.toLocaleString()} ms`;
+
+const PairingPanel: React.FC<PairingPanelProps> = ({ settings, onChange, pairs }) => {
+  const flagged = pairs.filter(pair => pair.exceedsTolerance).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-lg">Expected vs. Actual</h3>
+          <p className="text-sm text-muted-foreground">
+            Within each source and group, the nth start (or end) of an expected metric is paired with the nth of its
+            actual one; connectors join them on the chart.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="pairing-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => onChange({ ...settings, enabled: checked === true })}
+          />
+          <Label htmlFor="pairing-enabled">Pair metrics</Label>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="pairing-mode">Pairing</Label>
+              <Select value={settings.mode} onValueChange={(mode) => onChange({ ...settings, mode: mode as PairingMode })}>
+                <SelectTrigger id="pairing-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAIRING_MODES) as PairingMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{PAIRING_MODES[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {settings.mode === 'transform' ? (
+              <div className="space-y-2">
+                <Label htmlFor="pairing-expected">Expected ↔ Actual Names</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="pairing-expected"
+                    placeholder="expected.*"
+                    value={settings.expectedPattern}
+                    onChange={(e) => onChange({ ...settings, expectedPattern: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">↔</span>
+                  <Input
+                    aria-label="Actual name pattern"
+                    placeholder="actual.*"
+                    value={settings.actualPattern}
+                    onChange={(e) => onChange({ ...settings, actualPattern: e.target.value })}
+                  />
+                </div>
+                {isNamePattern(settings.expectedPattern) && isNamePattern(settings.actualPattern) ? (
+                  <p className="text-xs text-muted-foreground">One * in each; it stands for the shared part of the name.</p>
+                ) : (
+                  <p className="text-xs text-destructive">Each pattern needs exactly one *.</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="pairing-mapping">Pairs</Label>
+                <Textarea
+                  id="pairing-mapping"
+                  placeholder={'expected_login -> login_done\nexpected_sync -> sync_done'}
+                  value={settings.mapping}
+                  onChange={(e) => onChange({ ...settings, mapping: e.target.value })}
+                  className="min-h-[40px]"
+                />
+                <p className="text-xs text-muted-foreground">One pair per line, expected -&gt; actual.</p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="pairing-tolerance">Tolerance (ms)</Label>
+              <Input
+                id="pairing-tolerance"
+                type="number"
+                min={0}
+                value={settings.toleranceMs}
+                onChange={(e) => onChange({ ...settings, toleranceMs: Math.max(0, Number(e.target.value) || 0) })}
+              />
+              <p className="text-xs text-muted-foreground">
+                {flagged.toLocaleString()} of {pairs.length.toLocaleString()} pairs exceed it.
+              </p>
+            </div>
+          </div>
+
+          {pairs.length > 0 && (
+            <div className="max-h-80 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Actual</TableHead>
+                    <TableHead>Delta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pairs.slice(0, MAX_TABLE_ROWS).map((pair) => (
+                    <TableRow key={pairKey(pair)}>
+                      <TableCell>
+                        <p className="font-medium">{pair.source ? `${pair.kind} ${pair.occurrence + 1}` : '—'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {pair.source}{pair.group !== undefined ? ` [${pair.group}]` : ''}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{pair.expectedId}</p>
+                        <p className="text-xs text-muted-foreground">{formatTime(pair.expected)}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{pair.actualId}</p>
+                        <p className="text-xs text-muted-foreground">{formatTime(pair.actual)}</p>
+                      </TableCell>
+                      <TableCell>
+                        {pair.deltaMs === null ? (
+                          <Badge variant="outline">{pair.expected ? 'No actual' : 'No expected'}</Badge>
+                        ) : (
+                          <Badge variant={pair.exceedsTolerance ? 'destructive' : 'secondary'}>
+                            {formatDelta(pair.deltaMs)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {pairs.length > MAX_TABLE_ROWS && (
+            <p className="text-xs text-muted-foreground">
+              Showing {MAX_TABLE_ROWS.toLocaleString()} of {pairs.length.toLocaleString()} pairs.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PairingPanel;
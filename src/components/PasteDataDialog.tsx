@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Receives the pasted text wrapped in a File so it follows the upload path. */
+  onSubmit: (file: File) => void;
+}
+
+const PasteDataDialog: React.FC<PasteDataDialogProps> = ({ open, onOpenChange, onSubmit }) => {
+  const [text, setText] = useState('');
+  const [name, setName] = useState('Pasted data');
+
+  const handleSubmit = () => {
+    onSubmit(new File([text], name.trim() || 'Pasted data', { type: 'text/plain' }));
+    setText('');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Paste Data</DialogTitle>
+          <DialogDescription>
+            Paste CSV, JSON or NDJSON text. The format is detected from the content.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="paste-name">Source Name</Label>
+          <Input id="paste-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="paste-text">Data</Label>
+          <Textarea
+            id="paste-text"
+            placeholder={'METRICID,TIMESTAMP\nmetric_A,2024-01-01T00:00:00Z'}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="min-h-[240px] font-mono text-xs"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!text.trim()}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PasteDataDialog;
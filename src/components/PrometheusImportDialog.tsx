@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CsvRecord } from '@/lib/csv';
+import {
+  DEFAULT_PROMETHEUS_IMPORT_OPTIONS,
+  PROMETHEUS_FORMATS,
+  formatSeriesId,
+  sampleFromRecord,
+  type PrometheusFormat,
+  type PrometheusImportOptions,
+} from '@/lib/prometheus';
+
+const PREVIEW_SERIES = 10;
+
+interface PrometheusImportDialogProps {
+  open: boolean;
+  fileName: string;
+  /** Headers and records built by `toSampleRecords`. */
+  headers: string[];
+  samples: CsvRecord[];
+  /** Detected from the preview; decides the timestamp unit. */
+  initialOptions: Partial<PrometheusImportOptions>;
+  onConfirm: (options: PrometheusImportOptions) => void;
+  onCancel: () => void;
+}
+
+const PrometheusImportDialog: React.FC<PrometheusImportDialogProps> = ({
+  open,
+  fileName,
+  headers,
+  samples,
+  initialOptions,
+  onConfirm,
+  onCancel,
+}) => {
+  const labelNames = headers.slice(3);
+  const [keyLabels, setKeyLabels] = useState<string[]>(initialOptions.keyLabels ?? []);
+  const [format, setFormat] = useState<PrometheusFormat>(initialOptions.format ?? DEFAULT_PROMETHEUS_IMPORT_OPTIONS.format);
+
+  const parsedSamples = useMemo(() => samples.map(record => sampleFromRecord(headers, record)), [headers, samples]);
+
+  // Sample counts per resulting series, in first-seen order.
+  const series = useMemo(() => {
+    const counts = new Map<string, number>();
+    parsedSamples.forEach(sample => {
+      const id = formatSeriesId(sample, keyLabels);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    });
+    return Array.from(counts.entries());
+  }, [parsedSamples, keyLabels]);
+
+  const missingTimestamps = parsedSamples.filter(sample => !sample.timestamp).length;
+
+  const toggleLabel = (label: string) => {
+    setKeyLabels(prev => (prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Prometheus Samples</DialogTitle>
+          <DialogDescription>
+            Each timestamped sample in <span className="font-medium">{fileName}</span> becomes an event of its series.
+            Pick the labels that belong in the metric ID; every label and the value are kept as attributes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="prometheus-format">Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as PrometheusFormat)}>
+            <SelectTrigger id="prometheus-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PROMETHEUS_FORMATS) as PrometheusFormat[]).map((value) => (
+                <SelectItem key={value} value={value}>{PROMETHEUS_FORMATS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Decides whether sample timestamps are read as milliseconds or seconds.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Key Labels</Label>
+          {labelNames.length > 0 ? (
+            <div className="flex flex-wrap gap-4">
+              {labelNames.map((label) => (
+                <div key={label} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`key-label-${label}`}
+                    checked={keyLabels.includes(label)}
+                    onCheckedChange={() => toggleLabel(label)}
+                  />
+                  <Label htmlFor={`key-label-${label}`} className="font-mono text-xs">{label}</Label>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">The preview has no labels; series are keyed by metric name.</p>
+          )}
+          {missingTimestamps > 0 && (
+            <p className="text-xs text-destructive">
+              {missingTimestamps} preview samples have no timestamp and will be rejected.
+            </p>
+          )}
+        </div>
+
+        <div className="max-h-64 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric ID</TableHead>
+                <TableHead className="text-right">Samples in Preview</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {series.slice(0, PREVIEW_SERIES).map(([id, count]) => (
+                <TableRow key={id}>
+                  <TableCell className="font-mono text-xs">{id}</TableCell>
+                  <TableCell className="text-right">{count}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {series.length > PREVIEW_SERIES && (
+          <p className="text-xs text-muted-foreground">
+            Showing {PREVIEW_SERIES} of {series.length} series in the preview.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm({ keyLabels, format })}>Load Samples</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrometheusImportDialog;
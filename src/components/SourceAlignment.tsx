@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DataSource } from '@/lib/metric-data';
+
+interface SourceAlignmentProps {
+  sources: DataSource[];
+  /** Metric IDs present in more than one source. */
+  anchorMetricIds: string[];
+  /** Sets every source's offset so the anchor metric starts at the same time as in the reference source. */
+  onAlign: (anchorMetricId: string, referenceSourceId: string) => void;
+}
+
+const SourceAlignment: React.FC<SourceAlignmentProps> = ({ sources, anchorMetricIds, onAlign }) => {
+  const [anchorMetricId, setAnchorMetricId] = useState('');
+  const [referenceSourceId, setReferenceSourceId] = useState('');
+
+  if (sources.length < 2) return null;
+
+  const anchor = anchorMetricIds.includes(anchorMetricId) ? anchorMetricId : '';
+  const reference = sources.some(source => source.id === referenceSourceId) ? referenceSourceId : sources[0].id;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="align-metric">Align Sources on Metric</Label>
+      <div className="flex gap-2">
+        <Select value={anchor} onValueChange={setAnchorMetricId} disabled={anchorMetricIds.length === 0}>
+          <SelectTrigger id="align-metric">
+            <SelectValue placeholder={anchorMetricIds.length === 0 ? 'No metric in several sources' : 'Anchor metric'} />
+          </SelectTrigger>
+          <SelectContent>
+            {anchorMetricIds.map((metricId) => (
+              <SelectItem key={metricId} value={metricId}>{metricId}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={reference} onValueChange={setReferenceSourceId}>
+          <SelectTrigger aria-label="Reference source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sources.map((source) => (
+              <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" disabled={!anchor} onClick={() => onAlign(anchor, reference)}>
+          Align
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Offsets the other sources so the metric's first event matches the reference source.
+      </p>
+    </div>
+  );
+};
+
+export default SourceAlignment;
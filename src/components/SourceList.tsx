@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import type { DataSource } from '@/lib/metric-data';
+import type { IngestProgress } from '@/hooks/use-metric-import';
+
+interface SourceListProps {
+  sources: DataSource[];
+  ingests: IngestProgress[];
+  onToggleVisibility: (sourceId: string) => void;
+  onCancelIngest: (sourceId: string) => void;
+  onRemove: (sourceId: string) => void;
+  onOffsetChange: (sourceId: string, offsetMs: number) => void;
+}
+
+// Keeps the typed text while it is not a number yet (e.g. a lone minus sign).
+const OffsetInput: React.FC<{ source: DataSource; onChange: (offsetMs: number) => void }> = ({ source, onChange }) => {
+  const [text, setText] = useState(String(source.offsetMs));
+
+  useEffect(() => {
+    setText(current => (Number(current) === source.offsetMs ? current : String(source.offsetMs)));
+  }, [source.offsetMs]);
+
+  return (
+    <Input
+      type="number"
+      step={1}
+      className="h-7 w-24 shrink-0"
+      aria-label={`Clock offset of ${source.name} in milliseconds`}
+      title="Clock offset (ms)"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const offsetMs = Number(e.target.value);
+        if (e.target.value.trim() && Number.isFinite(offsetMs)) onChange(offsetMs);
+      }}
+      onBlur={() => setText(String(source.offsetMs))}
+    />
+  );
+};
+
+const SourceList: React.FC<SourceListProps> = ({
+  sources,
+  ingests,
+  onToggleVisibility,
+  onCancelIngest,
+  onRemove,
+  onOffsetChange,
+}) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {sources.map((source) => {
+        const ingest = ingests.find(i => i.sourceId === source.id);
+        return (
+          <li key={source.id} className="space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+              <Checkbox
+                id={`source-${source.id}`}
+                checked={source.visible}
+                onCheckedChange={() => onToggleVisibility(source.id)}
+              />
+              <label htmlFor={`source-${source.id}`} className="truncate flex-1 cursor-pointer" title={source.name}>
+                {source.name}
+              </label>
+              <span className="text-muted-foreground shrink-0">{source.rowCount.toLocaleString()} rows</span>
+              {sources.length > 1 && (
+                <>
+                  <OffsetInput source={source} onChange={(offsetMs) => onOffsetChange(source.id, offsetMs)} />
+                  <span className="text-muted-foreground shrink-0">ms</span>
+                </>
+              )}
+              {ingest ? (
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onCancelIngest(source.id)}>
+                  Cancel
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onRemove(source.id)}
+                  aria-label={`Remove ${source.name}`}
+                >
+                  <X />
+                </Button>
+              )}
+            </div>
+            {ingest && <Progress value={ingest.progress * 100} className="h-2" />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { CsvRecord } from '@/lib/csv';
+import {
+  PARENT_SPAN_ID_ATTRIBUTE,
+  SPAN_ID_ATTRIBUTE,
+  SPAN_NAME_ATTRIBUTE,
+  type SpanImportOptions,
+} from '@/lib/otlp';
+
+const PREVIEW_SPANS = 10;
+
+// Radix Select does not allow an empty item value.
+const SPAN_NAME = '__span_name__';
+
+interface SpanImportDialogProps {
+  open: boolean;
+  fileName: string;
+  /** Span attribute keys found in the preview. */
+  attributeKeys: string[];
+  /** One preview record per span, fields aligned to `attributeKeys`. */
+  spans: CsvRecord[];
+  onConfirm: (options: SpanImportOptions) => void;
+  onCancel: () => void;
+}
+
+const SpanImportDialog: React.FC<SpanImportDialogProps> = ({
+  open,
+  fileName,
+  attributeKeys,
+  spans,
+  onConfirm,
+  onCancel,
+}) => {
+  const [keyAttribute, setKeyAttribute] = useState(SPAN_NAME);
+
+  const field = (span: CsvRecord, key: string) => span.fields[attributeKeys.indexOf(key)] ?? '';
+  const metricId = (span: CsvRecord) =>
+    (keyAttribute !== SPAN_NAME && field(span, keyAttribute)) || field(span, SPAN_NAME_ATTRIBUTE);
+
+  const choices = attributeKeys.filter(key => key !== SPAN_NAME_ATTRIBUTE);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Trace Spans</DialogTitle>
+          <DialogDescription>
+            Each span of <span className="font-medium">{fileName}</span> becomes a start and an end event. Trace, span
+            and parent span IDs are kept as attributes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="span-key">Metric ID</Label>
+          <Select value={keyAttribute} onValueChange={setKeyAttribute}>
+            <SelectTrigger id="span-key">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SPAN_NAME}>Span name</SelectItem>
+              {choices.map((key) => (
+                <SelectItem key={key} value={key}>{key}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Spans without the chosen attribute fall back to their name.</p>
+        </div>
+
+        {spans.length > 0 ? (
+          <div className="max-h-64 overflow-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric ID</TableHead>
+                  <TableHead>Span ID</TableHead>
+                  <TableHead>Parent</TableHead>
+                  <TableHead className="text-right">Duration (ms)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {spans.slice(0, PREVIEW_SPANS).map((span, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{metricId(span)}</TableCell>
+                    <TableCell className="font-mono text-xs">{field(span, SPAN_ID_ATTRIBUTE)}</TableCell>
+                    <TableCell className="font-mono text-xs">{field(span, PARENT_SPAN_ID_ATTRIBUTE)}</TableCell>
+                    <TableCell className="text-right">{field(span, 'span.duration_ms')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">The export is too large to preview; spans are read during import.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm({ keyAttribute: keyAttribute === SPAN_NAME ? null : keyAttribute })}>
+            Load Spans
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpanImportDialog;
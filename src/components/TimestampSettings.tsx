@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  createTimestampParser,
+  isValidTimeZone,
+  type TimestampMode,
+  type TimestampOptions,
+} from '@/lib/timestamps';
+
+interface TimestampSettingsProps {
+  value: TimestampOptions;
+  onChange: (value: TimestampOptions) => void;
+  /** A raw TIMESTAMP value from the loaded data, used to preview the result. */
+  sample?: string;
+}
+
+const MODE_LABELS: Record<TimestampMode, string> = {
+  auto: 'Auto-detect (ISO 8601 / epoch)',
+  'epoch-s': 'Epoch seconds',
+  'epoch-ms': 'Epoch milliseconds',
+  'epoch-us': 'Epoch microseconds',
+  'epoch-ns': 'Epoch nanoseconds',
+  pattern: 'Custom pattern',
+};
+
+// Intl.supportedValuesOf is ES2022; older browsers just get no suggestions.
+const TIME_ZONES: string[] =
+  (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [];
+
+const TimestampSettings: React.FC<TimestampSettingsProps> = ({ value, onChange, sample }) => {
+  const [timeZoneInput, setTimeZoneInput] = useState(value.timeZone);
+  const timeZoneIsValid = isValidTimeZone(timeZoneInput);
+
+  const preview = useMemo(() => {
+    if (!sample) return null;
+    const parsed = createTimestampParser(value)(sample);
+    return parsed ? format(parsed, 'yyyy-MM-dd HH:mm:ss.SSS') : null;
+  }, [sample, value]);
+
+  const handleTimeZoneChange = (timeZone: string) => {
+    setTimeZoneInput(timeZone);
+    if (timeZone && isValidTimeZone(timeZone)) {
+      onChange({ ...value, timeZone });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        <Label htmlFor="timestamp-mode">Timestamp Format</Label>
+        <Select value={value.mode} onValueChange={(mode) => onChange({ ...value, mode: mode as TimestampMode })}>
+          <SelectTrigger id="timestamp-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MODE_LABELS) as TimestampMode[]).map((mode) => (
+              <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {sample && (
+          <p className="text-xs text-muted-foreground truncate">
+            {sample} → {preview ?? <span className="text-destructive">not recognised</span>}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="timestamp-pattern">Custom Pattern</Label>
+        <Input
+          id="timestamp-pattern"
+          placeholder="e.g., dd/MM/yyyy HH:mm:ss.SSS"
+          value={value.pattern}
+          disabled={value.mode !== 'pattern'}
+          onChange={(e) => onChange({ ...value, pattern: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground">Uses date-fns format tokens.</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="timestamp-zone">Source Time Zone</Label>
+        <Input
+          id="timestamp-zone"
+          list="timestamp-zone-options"
+          placeholder="local"
+          value={timeZoneInput}
+          onChange={(e) => handleTimeZoneChange(e.target.value)}
+          onBlur={() => !timeZoneIsValid && setTimeZoneInput(value.timeZone)}
+        />
+        <datalist id="timestamp-zone-options">
+          <option value="local" />
+          <option value="UTC" />
+          {TIME_ZONES.map((zone) => <option key={zone} value={zone} />)}
+        </datalist>
+        <p className={timeZoneIsValid ? 'text-xs text-muted-foreground' : 'text-xs text-destructive'}>
+          {timeZoneIsValid ? 'Applied to timestamps without an offset.' : 'Unknown time zone.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TimestampSettings;
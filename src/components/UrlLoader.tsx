@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Link } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import type { UrlDownload } from '@/hooks/use-url-import';
+
+interface UrlLoaderProps {
+  download: UrlDownload | null;
+  onLoad: (url: string) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const UrlLoader: React.FC<UrlLoaderProps> = ({ download, onLoad }) => {
+  const [url, setUrl] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (url.trim()) onLoad(url.trim());
+  };
+
+  return (
+    <form className="space-y-1" onSubmit={handleSubmit}>
+      <div className="flex gap-2">
+        <Input
+          aria-label="Dataset URL"
+          placeholder="https://…/capture.csv"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          disabled={download !== null}
+        />
+        <Button type="submit" variant="outline" disabled={download !== null || !url.trim()}>
+          <Link /> Load
+        </Button>
+      </div>
+      {download && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground truncate">
+            Downloading {download.url} — {formatBytes(download.loaded)}
+            {download.total > 0 && ` of ${formatBytes(download.total)}`}
+          </p>
+          <Progress value={download.total > 0 ? Math.min(100, (download.loaded / download.total) * 100) : undefined} className="h-2" />
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default UrlLoader;
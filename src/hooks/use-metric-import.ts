@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { CsvParseError, type CsvRecord } from '@/lib/csv';
+import { JsonParseError } from '@/lib/json';
+import { ingestFile, readImportPreview, type PreviewOptions } from '@/lib/ingest';
+import { expandCompressedFile } from '@/lib/decompress';
+import { getImporter } from '@/lib/importers';
+import { collectAttributeKeys } from '@/lib/attributes';
+import type { ImportDiagnostic } from '@/lib/diagnostics';
+import type { ImportDialect } from '@/lib/sniff';
+import type { ImportFilters } from '@/lib/import-filters';
+import type { TimestampOptions } from '@/lib/timestamps';
+import type { DataSource, MetricData } from '@/lib/metric-data';
+
+export interface PendingImport {
+  file: File;
+  importerId: string;
+  dialect: ImportDialect;
+  detectedDialect: ImportDialect;
+  headers: string[];
+  rows: CsvRecord[];
+  /** Starting point for the importer's config step. */
+  initialConfig: unknown;
+}
+
+// Ingested rows reach state at most this often, so a large file does not copy
+// csvData and recompute the chart for every worker batch.
+const ROW_FLUSH_INTERVAL_MS = 500;
+
+export interface IngestProgress {
+  sourceId: string;
+  progress: number;
+}
+
+const describeParseError = (error: unknown) =>
+  error instanceof CsvParseError
+    ? `Malformed CSV: ${error.message}.`
+    : error instanceof JsonParseError
+      ? `Malformed JSON: ${error.message}.`
+      : 'Failed to parse the file. Please check the format.';
+
+const readPendingImport = async (file: File, options?: PreviewOptions): Promise<PendingImport> => {
+  const preview = await readImportPreview(file, options);
+  return {
+    file,
+    ...preview,
+    initialConfig: getImporter(preview.importerId).initialConfig(preview),
+  };
+};
+
+/**
+ * Owns everything between a picked file and rows in `csvData`: previews,
+ * the queue of files waiting for their importer's settings, one worker ingest per
+ * source, the list of loaded sources and the rows rejected while importing.
+ * `filters` (read with `timestampOptions`) apply to ingests started after
+ * they change; rows already loaded are kept.
+ */
+export const useMetricImport = (filters: ImportFilters, timestampOptions: TimestampOptions) => {
+  const [csvData, setCsvData] = useState<MetricData[]>([]);
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [importDiagnostics, setImportDiagnostics] = useState<ImportDiagnostic[]>([]);
+  const [pendingImports, setPendingImports] = useState<PendingImport[]>([]);
+  const [ingests, setIngests] = useState<IngestProgress[]>([]);
+  const cancelsRef = useRef(new Map<string, () => void>());
+  const bufferedRowsRef = useRef<MetricData[]>([]);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const nextSourceIdRef = useRef(1);
+  const importSettingsRef = useRef({ filters, timestampOptions });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    importSettingsRef.current = { filters, timestampOptions };
+  }, [filters, timestampOptions]);
+
+  useEffect(() => {
+    const cancels = cancelsRef.current;
+    return () => {
+      cancels.forEach(cancel => cancel());
+      if (flushTimerRef.current !== null) clearTimeout(flushTimerRef.current);
+    };
+  }, []);
+
+  // Moves the buffered rows into csvData and their counts and attribute keys into the sources.
+  const flushRows = useCallback(() => {
+    if (flushTimerRef.current !== null) {
+      clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+    const rows = bufferedRowsRef.current;
+    if (rows.length === 0) return;
+    bufferedRowsRef.current = [];
+
+    const rowsBySource = new Map<string, MetricData[]>();
+    rows.forEach(row => {
+      const sourceRows = rowsBySource.get(row.SOURCE);
+      if (sourceRows) sourceRows.push(row);
+      else rowsBySource.set(row.SOURCE, [row]);
+    });
+    setCsvData(prev => prev.concat(rows));
+    setSources(prev => prev.map(source => {
+      const sourceRows = rowsBySource.get(source.id);
+      if (!sourceRows) return source;
+      const newKeys = collectAttributeKeys(sourceRows).filter(key => !source.attributeKeys.includes(key));
+      return {
+        ...source,
+        rowCount: source.rowCount + sourceRows.length,
+        attributeKeys: newKeys.length > 0 ? source.attributeKeys.concat(newKeys) : source.attributeKeys,
+      };
+    }));
+  }, []);
+
+  const finishIngest = useCallback((sourceId: string) => {
+    cancelsRef.current.delete(sourceId);
+    setIngests(prev => prev.filter(ingest => ingest.sourceId !== sourceId));
+  }, []);
+
+  const startIngest = useCallback((
+    file: File,
+    importerId: string,
+    dialect: ImportDialect,
+    config: unknown,
+  ) => {
+    const sourceId = `source-${nextSourceIdRef.current++}`;
+    setSources(prev => [...prev, { id: sourceId, name: file.name, visible: true, rowCount: 0, attributeKeys: [], offsetMs: 0 }]);
+    setIngests(prev => [...prev, { sourceId, progress: 0 }]);
+
+    const cancel = ingestFile({ file, importerId, dialect, config, ...importSettingsRef.current, sourceId }, {
+      onBatch: (rows, rejected, progress) => {
+        if (rejected.length > 0) {
+          setImportDiagnostics(prev => prev.concat(rejected));
+        }
+        if (rows.length > 0) {
+          const buffered = bufferedRowsRef.current;
+          rows.forEach(row => buffered.push(row));
+          if (flushTimerRef.current === null) {
+            flushTimerRef.current = setTimeout(flushRows, ROW_FLUSH_INTERVAL_MS);
+          }
+        }
+        setIngests(prev => prev.map(ingest => (ingest.sourceId === sourceId ? { sourceId, progress } : ingest)));
+      },
+      onDone: (rowCount, skippedCount) => {
+        flushRows();
+        finishIngest(sourceId);
+        const skipped = skippedCount > 0 ? ` ${skippedCount.toLocaleString()} rows were left out by the import filters.` : '';
+        toast({
+          title: "Data Uploaded",
+          description: `Loaded ${rowCount.toLocaleString()} rows from ${file.name}.${skipped}`,
+        });
+      },
+      onError: (message) => {
+        flushRows();
+        finishIngest(sourceId);
+        console.error("Error ingesting file:", message);
+        toast({
+          title: "Error",
+          description: `Import of ${file.name} stopped: ${message}`,
+          variant: "destructive",
+        });
+      },
+    });
+    cancelsRef.current.set(sourceId, cancel);
+  }, [finishIngest, flushRows, toast]);
+
+  const importFiles = useCallback(async (files: File[]) => {
+    const queuePreview = async (file: File) => {
+      const pending = await readPendingImport(file);
+      if (!getImporter(pending.importerId).configStep) {
+        startIngest(file, pending.importerId, pending.dialect, pending.initialConfig);
+        return;
+      }
+      setPendingImports(prev => [...prev, pending]);
+    };
+
+    for (const upload of files) {
+      let expanded: File[];
+      try {
+        expanded = await expandCompressedFile(upload);
+      } catch (error) {
+        console.error(`Error decompressing ${upload.name}:`, error);
+        toast({
+          title: `Error in ${upload.name}`,
+          description: `Could not decompress the file: ${error instanceof Error ? error.message : String(error)}`,
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      for (const file of expanded) {
+        try {
+          await queuePreview(file);
+        } catch (error) {
+          console.error(`Error parsing ${file.name}:`, error);
+          toast({
+            title: `Error in ${file.name}`,
+            description: describeParseError(error),
+            variant: "destructive",
+          });
+        }
+      }
+    }
+  }, [startIngest, toast]);
+
+  // Queued files the importer considers alike (e.g. the same header layout)
+  // reuse the confirmed config instead of asking again.
+  const confirmImport = useCallback((config: unknown) => {
+    const current = pendingImports[0];
+    if (!current) return;
+
+    const { batchKey } = getImporter(current.importerId);
+    const key = batchKey?.(current);
+    const batch = pendingImports.filter(pending =>
+      pending === current
+      || (key !== undefined && pending.importerId === current.importerId && batchKey(pending) === key),
+    );
+    batch.forEach(pending => startIngest(pending.file, pending.importerId, pending.dialect, config));
+    setPendingImports(prev => prev.filter(pending => !batch.includes(pending)));
+  }, [pendingImports, startIngest]);
+
+  // Re-reads the preview of the file at the front of the queue with the
+  // dialect or importer chosen in the config step.
+  const rereadPendingImport = useCallback(async (options: PreviewOptions) => {
+    const current = pendingImports[0];
+    if (!current) return;
+    try {
+      const updated = await readPendingImport(current.file, options);
+      setPendingImports(prev => prev.map(pending => (pending === current ? updated : pending)));
+    } catch (error) {
+      toast({
+        title: `Error in ${current.file.name}`,
+        description: describeParseError(error),
+        variant: "destructive",
+      });
+    }
+  }, [pendingImports, toast]);
+
+  const changePendingDialect = useCallback((dialect: ImportDialect) => {
+    rereadPendingImport({ dialect, importerId: pendingImports[0]?.importerId });
+  }, [pendingImports, rereadPendingImport]);
+
+  const changePendingImporter = useCallback((importerId: string) => {
+    rereadPendingImport({ importerId });
+  }, [rereadPendingImport]);
+
+  const skipPendingImport = useCallback(() => {
+    setPendingImports(prev => prev.slice(1));
+  }, []);
+
+  const cancelIngest = useCallback((sourceId: string) => {
+    cancelsRef.current.get(sourceId)?.();
+    flushRows();
+    finishIngest(sourceId);
+    toast({
+      title: "Import Cancelled",
+      description: "Rows loaded before cancelling are still shown.",
+    });
+  }, [finishIngest, flushRows, toast]);
+
+  const removeSource = useCallback((sourceId: string) => {
+    cancelsRef.current.get(sourceId)?.();
+    finishIngest(sourceId);
+    bufferedRowsRef.current = bufferedRowsRef.current.filter(row => row.SOURCE !== sourceId);
+    setSources(prev => prev.filter(source => source.id !== sourceId));
+    setCsvData(prev => prev.filter(row => row.SOURCE !== sourceId));
+    setImportDiagnostics(prev => prev.filter(diagnostic => diagnostic.source !== sourceId));
+  }, [finishIngest]);
+
+  const toggleSourceVisibility = useCallback((sourceId: string) => {
+    setSources(prev => prev.map(source =>
+      source.id === sourceId ? { ...source, visible: !source.visible } : source,
+    ));
+  }, []);
+
+  // Offsets only move events on the chart; loaded rows keep their raw timestamps.
+  const setSourceOffsets = useCallback((offsets: Map<string, number>) => {
+    setSources(prev => prev.map(source => {
+      const offsetMs = offsets.get(source.id);
+      return offsetMs === undefined ? source : { ...source, offsetMs };
+    }));
+  }, []);
+
+  return {
+    csvData,
+    sources,
+    importDiagnostics,
+    ingests,
+    pendingImport: pendingImports[0] ?? null,
+    importFiles,
+    confirmImport,
+    changePendingDialect,
+    changePendingImporter,
+    skipPendingImport,
+    cancelIngest,
+    removeSource,
+    toggleSourceVisibility,
+    setSourceOffsets,
+  };
+};
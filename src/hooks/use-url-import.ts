@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { fetchDataset, isRetryableFetchError } from '@/lib/fetch-dataset';
+
+// Reopening the same link within this window reuses the downloaded file.
+const DATASET_STALE_TIME = 5 * 60 * 1000;
+const MAX_DOWNLOAD_RETRIES = 2;
+
+export interface UrlDownload {
+  url: string;
+  loaded: number;
+  /** 0 when the server did not report a size. */
+  total: number;
+}
+
+/**
+ * Loads datasets from a URL through the app's QueryClient, and keeps the
+ * `?src=` query parameter in sync so the current dataset can be shared as a link.
+ */
+export const useUrlImport = (importFiles: (files: File[]) => Promise<void>) => {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [download, setDownload] = useState<UrlDownload | null>(null);
+  const requestedUrlRef = useRef<string | null>(null);
+  const { toast } = useToast();
+
+  const loadUrl = useCallback(async (url: string) => {
+    requestedUrlRef.current = url;
+    setDownload({ url, loaded: 0, total: 0 });
+    try {
+      const file = await queryClient.fetchQuery({
+        queryKey: ['dataset', url],
+        queryFn: ({ signal }) => fetchDataset(url, (loaded, total) => setDownload({ url, loaded, total }), signal),
+        retry: (failureCount, error) => failureCount < MAX_DOWNLOAD_RETRIES && isRetryableFetchError(error),
+        staleTime: DATASET_STALE_TIME,
+      });
+      setSearchParams(prev => {
+        const next = new URLSearchParams(prev);
+        next.set('src', url);
+        return next;
+      }, { replace: true });
+      await importFiles([file]);
+    } catch (error) {
+      console.error(`Error loading ${url}:`, error);
+      toast({
+        title: "Error",
+        description: `Could not load ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive",
+      });
+    } finally {
+      setDownload(null);
+    }
+  }, [queryClient, setSearchParams, importFiles, toast]);
+
+  const srcParam = searchParams.get('src');
+  useEffect(() => {
+    if (srcParam && srcParam !== requestedUrlRef.current) {
+      loadUrl(srcParam);
+    }
+  }, [srcParam, loadUrl]);
+
+  return { download, loadUrl };
+};
@@ -0,0 +1,70 @@
+import type { AttributeValue, MetricData } from './metric-data';
+
+export type AttributeFilterOperator = 'equals' | 'not-equals' | 'contains' | 'starts-with' | 'ends-with';
+
+export interface AttributeFilter {
+  key: string;
+  operator: AttributeFilterOperator;
+  value: string;
+}
+
+export const ATTRIBUTE_FILTER_OPERATORS: Record<AttributeFilterOperator, string> = {
+  equals: 'equals',
+  'not-equals': 'does not equal',
+  contains: 'contains',
+  'starts-with': 'starts with',
+  'ends-with': 'ends with',
+};
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Types a raw text value: numbers and booleans are converted, everything else
+ * stays a string. Values that would not round-trip (leading zeros, integers
+ * beyond 2^53 such as numeric trace IDs) are kept as text.
+ */
+export const inferAttributeValue = (raw: string): AttributeValue => {
+  if (NUMBER_PATTERN.test(raw)) {
+    const numeric = Number(raw);
+    if (Number.isSafeInteger(numeric) || !Number.isInteger(numeric)) return numeric;
+  }
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  return raw;
+};
+
+export const formatAttributeValue = (value: AttributeValue | undefined) =>
+  value === undefined ? '' : String(value);
+
+/** Lists attribute keys in first-seen order. */
+export const collectAttributeKeys = (rows: MetricData[]) => {
+  const keys = new Set<string>();
+  rows.forEach(row => Object.keys(row.ATTRIBUTES).forEach(key => keys.add(key)));
+  return Array.from(keys);
+};
+
+/**
+ * Whether a comparison narrows anything down: `contains`, `starts-with` and
+ * `ends-with` with an empty value would match every event, so filters and
+ * rules that are still being typed are treated as switched off.
+ */
+export const isActiveComparison = (operator: AttributeFilterOperator, expected: string) =>
+  expected !== '' || operator === 'equals' || operator === 'not-equals';
+
+/** Compares a formatted value; `contains` ignores case, the other operators do not. */
+export const matchesOperator = (actual: string, operator: AttributeFilterOperator, expected: string) => {
+  switch (operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not-equals':
+      return actual !== expected;
+    case 'contains':
+      return actual.toLowerCase().includes(expected.toLowerCase());
+    case 'starts-with':
+      return actual.startsWith(expected);
+    case 'ends-with':
+      return actual.endsWith(expected);
+  }
+};
+
+export const matchesAttributeFilter = (row: MetricData, filter: AttributeFilter) =>
+  matchesOperator(formatAttributeValue(row.ATTRIBUTES[filter.key]), filter.operator, filter.value);
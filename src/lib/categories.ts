@@ -0,0 +1,193 @@
+import { formatAttributeValue, isActiveComparison, matchesOperator, type AttributeFilterOperator } from './attributes';
+import type { MetricData } from './metric-data';
+import { createIdMatcher, dropInvalidPatterns, isWildcardPattern, splitPatternList } from './patterns';
+
+export type DashStyle = 'dashed' | 'dotted' | 'solid';
+
+export const DASH_STYLES: Record<DashStyle, string> = {
+  dashed: 'Dashed',
+  dotted: 'Dotted',
+  solid: 'Solid',
+};
+
+/** SVG stroke-dasharray per style; `undefined` draws a continuous line. */
+export const DASH_ARRAYS: Record<DashStyle, string | undefined> = {
+  dashed: '4 4',
+  dotted: '1 2',
+  solid: undefined,
+};
+
+/**
+ * A bucket metrics are sorted into. Categories are kept in precedence order:
+ * a metric listed in several belongs to the first.
+ */
+export interface MetricCategory {
+  id: string;
+  name: string;
+  color: string;
+  /** Stroke of start markers and single events; end markers are always solid. */
+  dash: DashStyle;
+  description: string;
+  /** Pattern list as typed: metric IDs, globs or `/regex/` entries (see patterns.ts). */
+  metricIds: string;
+  /** IDs assigned from the legend, matched as-is rather than read as patterns. */
+  assignedMetricIds: string[];
+  /**
+   * Lists IDs that do not occur in the data in the legend too, and labels the
+   * ones that do as found. Meant for "should not happen" lists.
+   */
+  showAbsent: boolean;
+}
+
+export const DEFAULT_CATEGORIES: MetricCategory[] = [
+  {
+    id: 'expected',
+    name: 'Expected',
+    color: '#3b82f6',
+    dash: 'dashed',
+    description: 'Metrics the run should produce.',
+    metricIds: '',
+    assignedMetricIds: [],
+    showAbsent: false,
+  },
+  {
+    id: 'actual',
+    name: 'Actual',
+    color: '#ef4444',
+    dash: 'dashed',
+    description: 'Metrics the run did produce.',
+    metricIds: '',
+    assignedMetricIds: [],
+    showAbsent: false,
+  },
+  {
+    id: 'missing',
+    name: 'Missing',
+    color: '#6b7280',
+    dash: 'dashed',
+    description: 'Metrics that should be absent; shown in the legend even when they are.',
+    metricIds: '',
+    assignedMetricIds: [],
+    showAbsent: true,
+  },
+  {
+    id: 'noise',
+    name: 'Noise',
+    color: '#f59e0b',
+    dash: 'dashed',
+    description: 'Background metrics kept for context.',
+    metricIds: '',
+    assignedMetricIds: [],
+    showAbsent: false,
+  },
+];
+
+/** The plain and assigned IDs of a category; wildcard entries cannot be listed as absent. */
+export const listedMetricIds = (category: MetricCategory) => [
+  ...splitPatternList(category.metricIds).filter(pattern => !isWildcardPattern(pattern)),
+  ...category.assignedMetricIds,
+];
+
+/** Assigns a metric to a category by its exact ID, whatever characters it holds. */
+export const assignMetricToCategory = (categories: MetricCategory[], categoryId: string, metricId: string) =>
+  categories.map(category => {
+    if (category.id !== categoryId || category.assignedMetricIds.includes(metricId)) return category;
+    return { ...category, assignedMetricIds: [...category.assignedMetricIds, metricId] };
+  });
+
+/** ID of the bucket for events no category or rule claims. */
+export const UNCATEGORIZED_ID = '__uncategorized__';
+
+export interface UncategorizedBucket {
+  color: string;
+  /** Hidden events are left off the chart and reported in the diagnostics instead. */
+  visible: boolean;
+}
+
+export const DEFAULT_UNCATEGORIZED_BUCKET: UncategorizedBucket = {
+  color: '#94a3b8',
+  visible: true,
+};
+
+/** The bucket as a category, so the chart draws its events like any other. */
+export const uncategorizedCategory = (bucket: UncategorizedBucket): MetricCategory => ({
+  id: UNCATEGORIZED_ID,
+  name: 'Uncategorized',
+  color: bucket.color,
+  dash: 'dashed',
+  description: 'Metrics no category list or rule matches.',
+  metricIds: '',
+  assignedMetricIds: [],
+  showAbsent: false,
+});
+
+/** A blank category with an ID not used by `existing`. */
+export const createCategory = (existing: MetricCategory[]): MetricCategory => {
+  const ids = new Set(existing.map(category => category.id));
+  let index = existing.length + 1;
+  while (ids.has(`category-${index}`)) index++;
+  return {
+    id: `category-${index}`,
+    name: `Category ${index}`,
+    color: '#10b981',
+    dash: 'dashed',
+    description: '',
+    metricIds: '',
+    assignedMetricIds: [],
+    showAbsent: false,
+  };
+};
+
+export interface CompiledCategory {
+  category: MetricCategory;
+  matches: (metricId: string) => boolean;
+}
+
+// Invalid entries are left out here; the category editor points them out.
+export const compileCategories = (categories: MetricCategory[]): CompiledCategory[] =>
+  categories.map(category => {
+    const matchesPattern = createIdMatcher(dropInvalidPatterns(splitPatternList(category.metricIds)));
+    const assigned = new Set(category.assignedMetricIds);
+    return { category, matches: (metricId: string) => assigned.has(metricId) || matchesPattern(metricId) };
+  });
+
+/** The first category whose list matches the metric, or `undefined` when none does. */
+export const classifyMetric = (compiled: CompiledCategory[], metricId: string) =>
+  compiled.find(({ matches }) => matches(metricId))?.category;
+
+/** Rule field that compares the metric ID instead of an attribute. */
+export const METRIC_ID_FIELD = 'METRICID';
+
+/** Puts matching events into a category, ahead of the categories' ID lists. */
+export interface ClassificationRule {
+  id: string;
+  /** Attribute key, or METRIC_ID_FIELD. */
+  field: string;
+  operator: AttributeFilterOperator;
+  value: string;
+  categoryId: string;
+}
+
+export const createClassificationRule = (existing: ClassificationRule[], categoryId: string): ClassificationRule => {
+  const ids = new Set(existing.map(rule => rule.id));
+  let index = existing.length + 1;
+  while (ids.has(`rule-${index}`)) index++;
+  return { id: `rule-${index}`, field: METRIC_ID_FIELD, operator: 'equals', value: '', categoryId };
+};
+
+/**
+ * Classifies one event: the first rule it matches decides, as long as that
+ * rule's category still exists; otherwise the metric ID lists do. Rules
+ * without a field, or with an empty value their operator would match
+ * everything with, are skipped.
+ */
+export const classifyEvent = (compiled: CompiledCategory[], rules: ClassificationRule[], row: MetricData) => {
+  for (const rule of rules) {
+    if (!rule.field || !isActiveComparison(rule.operator, rule.value)) continue;
+    const actual = rule.field === METRIC_ID_FIELD ? row.METRICID : formatAttributeValue(row.ATTRIBUTES[rule.field]);
+    if (!matchesOperator(actual, rule.operator, rule.value)) continue;
+    const target = compiled.find(({ category }) => category.id === rule.categoryId);
+    if (target) return target.category;
+  }
+  return classifyMetric(compiled, row.METRICID);
+};
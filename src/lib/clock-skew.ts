@@ -0,0 +1,51 @@
+import type { DataSource, MetricData } from './metric-data';
+
+/**
+ * Computes offsets that line up the first occurrence of `anchorMetricId` in
+ * every source with its first occurrence in the reference source, which keeps
+ * its current offset. The reference is `referenceSourceId` if that source has
+ * the anchor metric, else the first source in `sources` that does. Sources
+ * without the anchor metric are left out of the result.
+ */
+export const computeAlignmentOffsets = (
+  rows: MetricData[],
+  sources: DataSource[],
+  anchorMetricId: string,
+  parseTimestamp: (value: string) => Date | null,
+  referenceSourceId?: string,
+): Map<string, number> => {
+  const firstSeen = new Map<string, number>();
+  rows.forEach(row => {
+    if (row.METRICID !== anchorMetricId) return;
+    const time = parseTimestamp(row.TIMESTAMP)?.getTime();
+    if (time === undefined) return;
+    const current = firstSeen.get(row.SOURCE);
+    if (current === undefined || time < current) firstSeen.set(row.SOURCE, time);
+  });
+
+  const anchored = sources.filter(source => firstSeen.has(source.id));
+  const reference = anchored.find(source => source.id === referenceSourceId) ?? anchored[0];
+  const offsets = new Map<string, number>();
+  if (!reference) return offsets;
+
+  const target = (firstSeen.get(reference.id) ?? 0) + reference.offsetMs;
+  anchored.forEach(source => offsets.set(source.id, target - (firstSeen.get(source.id) ?? 0)));
+  return offsets;
+};
+
+/** Metric IDs that occur in at least two sources, the only useful alignment anchors. */
+export const findSharedMetricIds = (rows: MetricData[]) => {
+  const sourcesByMetric = new Map<string, Set<string>>();
+  rows.forEach(row => {
+    let metricSources = sourcesByMetric.get(row.METRICID);
+    if (!metricSources) {
+      metricSources = new Set();
+      sourcesByMetric.set(row.METRICID, metricSources);
+    }
+    metricSources.add(row.SOURCE);
+  });
+  return Array.from(sourcesByMetric)
+    .filter(([, metricSources]) => metricSources.size > 1)
+    .map(([metricId]) => metricId)
+    .sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,160 @@
+import { formatCsvRow, type CsvRecord } from './csv';
+import type { DiagnosticReason, ImportDiagnostic } from './diagnostics';
+import { inferAttributeValue } from './attributes';
+import type { AttributeValue, MetricData } from './metric-data';
+import { createTimestampParser, DEFAULT_TIMESTAMP_OPTIONS } from './timestamps';
+
+export interface ColumnMapping {
+  metricIdColumn: string;
+  timestampColumn: string;
+}
+
+const STORAGE_KEY = 'metric-graph:column-mappings';
+const SAMPLE_SIZE = 50;
+
+const ID_NAME_HINTS = ['metricid', 'metric_id', 'metricname', 'metric_name', 'metric', 'event', 'event_name', 'name', 'key', 'id'];
+const TIME_NAME_HINTS = ['timestamp', '@timestamp', 'ts', 'time', 'event_time', 'eventtime', 'datetime', 'date', 'created_at', 'time_stamp'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Earlier entries in a hint list are stronger matches; partial matches score lower.
+// Dotted JSON field paths are also scored on their last segment.
+const nameScore = (header: string, hints: string[]) => {
+  const normalized = normalizeHeader(header);
+  const candidates = [normalized, normalized.split('.').pop()];
+  const exact = Math.max(...candidates.map(candidate => hints.indexOf(candidate)).map(i => (i === -1 ? -1 : 10 - i * 0.5)));
+  if (exact > 0) return exact;
+  return hints.some(hint => hint.length > 2 && normalized.includes(hint)) ? 3 : 0;
+};
+
+const parseAutoTimestamp = createTimestampParser(DEFAULT_TIMESTAMP_OPTIONS);
+
+const looksLikeTimestamp = (value: string) => /\d/.test(value) && parseAutoTimestamp(value) !== null;
+
+const looksLikeIdentifier = (value: string) => /[a-z_]/i.test(value) && !looksLikeTimestamp(value);
+
+const contentScore = (records: CsvRecord[], columnIndex: number, predicate: (value: string) => boolean) => {
+  const values = records
+    .slice(0, SAMPLE_SIZE)
+    .map(record => record.fields[columnIndex]?.trim())
+    .filter(Boolean);
+  if (values.length === 0) return 0;
+  return (values.filter(predicate).length / values.length) * 5;
+};
+
+const bestColumn = (headers: string[], score: (header: string, index: number) => number, exclude?: string) => {
+  let best: string | undefined;
+  let bestScore = 0;
+  headers.forEach((header, index) => {
+    if (header === exclude) return;
+    const value = score(header, index);
+    if (value > bestScore) {
+      best = header;
+      bestScore = value;
+    }
+  });
+  return best;
+};
+
+/** Guesses the ID and time columns from header names and the first rows of data. */
+export const suggestColumnMapping = (headers: string[], rows: CsvRecord[]): Partial<ColumnMapping> => {
+  const timestampColumn = bestColumn(
+    headers,
+    (header, index) => nameScore(header, TIME_NAME_HINTS) + contentScore(rows, index, looksLikeTimestamp),
+  );
+  const metricIdColumn = bestColumn(
+    headers,
+    (header, index) => nameScore(header, ID_NAME_HINTS) + contentScore(rows, index, looksLikeIdentifier),
+    timestampColumn,
+  );
+  return { metricIdColumn, timestampColumn };
+};
+
+/**
+ * Reads a header row into distinct column names: blank headers become
+ * `column_<n>` and repeated ones get a `_2`, `_3`... suffix, so every column
+ * can be mapped by name.
+ */
+export const uniqueHeaders = (fields: string[]) => {
+  const seen = new Set<string>();
+  return fields.map((field, index) => {
+    const base = field.trim() || `column_${index + 1}`;
+    let header = base;
+    for (let suffix = 2; seen.has(header); suffix++) header = `${base}_${suffix}`;
+    seen.add(header);
+    return header;
+  });
+};
+
+export const headerSignature = (headers: string[]) => headers.map(normalizeHeader).join('|');
+
+const readSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedColumnMapping = (headers: string[]): ColumnMapping | undefined => {
+  const mapping = readSavedMappings()[headerSignature(headers)];
+  if (mapping && headers.includes(mapping.metricIdColumn) && headers.includes(mapping.timestampColumn)) {
+    return mapping;
+  }
+  return undefined;
+};
+
+export const saveColumnMapping = (headers: string[], mapping: ColumnMapping) => {
+  const mappings = readSavedMappings();
+  mappings[headerSignature(headers)] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+};
+
+/**
+ * Resolves the mapped columns once and returns a converter for individual data
+ * rows, so streaming parsers can map records as they arrive. Rows are tagged
+ * with `source` and keep every other non-empty column as a typed attribute;
+ * rows that cannot be used come back as diagnostics, written out with the
+ * file's `delimiter`.
+ */
+export const createRowMapper = (headers: string[], mapping: ColumnMapping, source: string, delimiter = ',') => {
+  const metricIdIndex = headers.indexOf(mapping.metricIdColumn);
+  const timestampIndex = headers.indexOf(mapping.timestampColumn);
+
+  if (metricIdIndex === -1 || timestampIndex === -1) {
+    throw new Error(`Columns '${mapping.metricIdColumn}' and '${mapping.timestampColumn}' must both exist in the header row.`);
+  }
+
+  const attributeColumns = headers
+    .map((header, index) => ({ key: header, index }))
+    .filter(({ index }) => index !== metricIdIndex && index !== timestampIndex);
+
+  return (record: CsvRecord): MetricData | ImportDiagnostic => {
+    const values = record.fields.map(v => v.trim());
+    const reject = (reason: DiagnosticReason, detail: string): ImportDiagnostic => ({
+      source,
+      line: record.line,
+      raw: formatCsvRow(record.fields, delimiter),
+      reason,
+      detail,
+    });
+
+    if (values.length <= Math.max(metricIdIndex, timestampIndex)) {
+      return reject('short-row', `Expected at least ${Math.max(metricIdIndex, timestampIndex) + 1} columns, found ${values.length}.`);
+    }
+    if (!values[metricIdIndex] || !values[timestampIndex]) {
+      return reject('missing-field', `'${values[metricIdIndex] ? mapping.timestampColumn : mapping.metricIdColumn}' is empty.`);
+    }
+    const attributes: Record<string, AttributeValue> = {};
+    attributeColumns.forEach(({ key, index }) => {
+      if (values[index]) attributes[key] = inferAttributeValue(values[index]);
+    });
+    return {
+      METRICID: values[metricIdIndex],
+      TIMESTAMP: values[timestampIndex],
+      SOURCE: source,
+      LINE: record.line,
+      ATTRIBUTES: attributes,
+    };
+  };
+};
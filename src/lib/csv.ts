@@ -0,0 +1,172 @@
+export interface CsvRecord {
+  fields: string[];
+  /** 1-based line number on which the record starts. */
+  line: number;
+}
+
+export class CsvParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'CsvParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenizerState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteSeen';
+
+/**
+ * Incremental RFC 4180 tokenizer. Feed it text with `push` (chunks may split
+ * records, quotes or CRLF pairs anywhere) and call `end` once the input is
+ * exhausted. Accepts CRLF, LF and CR line endings and skips a leading BOM.
+ */
+export class CsvTokenizer {
+  private readonly delimiter: string;
+  private state: TokenizerState = 'fieldStart';
+  private field = '';
+  private fieldQuoted = false;
+  private fields: string[] = [];
+  private line = 1;
+  private column = 0;
+  private recordLine = 1;
+  private quoteLine = 0;
+  private quoteColumn = 0;
+  private afterCarriageReturn = false;
+  private atStart = true;
+
+  constructor(delimiter = ',') {
+    this.delimiter = delimiter;
+  }
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.atStart) {
+        this.atStart = false;
+        if (ch === '\uFEFF') continue;
+      }
+
+      // The LF of a CRLF pair belongs to the line break already counted at the CR.
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (ch === '\n') {
+          if (this.state === 'quoted') this.field += ch;
+          continue;
+        }
+      }
+
+      const isNewline = ch === '\n' || ch === '\r';
+      this.column++;
+
+      switch (this.state) {
+        case 'fieldStart':
+          if (ch === '"') {
+            this.state = 'quoted';
+            this.fieldQuoted = true;
+            this.quoteLine = this.line;
+            this.quoteColumn = this.column;
+          } else if (ch === this.delimiter) {
+            this.endField();
+          } else if (isNewline) {
+            this.endRecord(records);
+          } else {
+            this.field += ch;
+            this.state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (ch === this.delimiter) {
+            this.endField();
+          } else if (isNewline) {
+            this.endRecord(records);
+          } else if (ch === '"') {
+            throw new CsvParseError('Unexpected quote in unquoted field', this.line, this.column);
+          } else {
+            this.field += ch;
+          }
+          break;
+
+        case 'quoted':
+          if (ch === '"') {
+            this.state = 'quoteSeen';
+          } else {
+            this.field += ch;
+          }
+          break;
+
+        case 'quoteSeen':
+          if (ch === '"') {
+            // Escaped quote ("") inside a quoted field.
+            this.field += ch;
+            this.state = 'quoted';
+          } else if (ch === this.delimiter) {
+            this.endField();
+          } else if (isNewline) {
+            this.endRecord(records);
+          } else {
+            throw new CsvParseError('Unexpected character after closing quote', this.line, this.column);
+          }
+          break;
+      }
+
+      if (isNewline) {
+        this.line++;
+        this.column = 0;
+        this.afterCarriageReturn = ch === '\r';
+        if (this.state === 'fieldStart' && this.fields.length === 0) {
+          this.recordLine = this.line;
+        }
+      }
+    }
+
+    return records;
+  }
+
+  end(): CsvRecord[] {
+    if (this.state === 'quoted') {
+      throw new CsvParseError('Unterminated quoted field', this.quoteLine, this.quoteColumn);
+    }
+    const records: CsvRecord[] = [];
+    if (this.fields.length > 0 || this.field !== '' || this.fieldQuoted || this.state !== 'fieldStart') {
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+    this.state = 'fieldStart';
+  }
+
+  private endRecord(records: CsvRecord[]) {
+    const isBlankLine = this.fields.length === 0 && this.field === '' && !this.fieldQuoted;
+    this.endField();
+    if (!isBlankLine) {
+      records.push({ fields: this.fields, line: this.recordLine });
+    }
+    this.fields = [];
+  }
+}
+
+export const parseCsvRecords = (text: string, delimiter = ','): CsvRecord[] => {
+  const tokenizer = new CsvTokenizer(delimiter);
+  return [...tokenizer.push(text), ...tokenizer.end()];
+};
+
+const needsQuoting = (field: string, delimiter: string) =>
+  field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim();
+
+/** Serializes one record, quoting only the fields that need it. */
+export const formatCsvRow = (fields: string[], delimiter = ','): string =>
+  fields
+    .map(field => (needsQuoting(field, delimiter) ? `"${field.replace(/"/g, '""')}"` : field))
+    .join(delimiter);
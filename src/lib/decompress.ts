@@ -0,0 +1,46 @@
+import { readZipEntries } from './zip';
+
+export type CompressionKind = 'gzip' | 'zip' | null;
+
+const IMPORTABLE_NAME = /\.(csv|tsv|txt|log|prom|json|ndjson|jsonl|har|gz)$/i;
+
+export const detectCompression = async (file: File): Promise<CompressionKind> => {
+  const magic = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  if (magic[0] === 0x1f && magic[1] === 0x8b) return 'gzip';
+  if (magic[0] === 0x50 && magic[1] === 0x4b && magic[2] === 0x03 && magic[3] === 0x04) return 'zip';
+  return null;
+};
+
+const gunzip = async (file: File) => {
+  const content = await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).blob();
+  return new File([content], file.name.replace(/\.gz$/i, '') || file.name, { lastModified: file.lastModified });
+};
+
+/**
+ * Expands compressed uploads, recognised by magic bytes rather than extension:
+ * a gzip file becomes its decompressed content, and a zip archive becomes one
+ * file per importable entry (nested .gz entries are expanded too). Anything
+ * else is returned unchanged.
+ */
+export const expandCompressedFile = async (file: File): Promise<File[]> => {
+  switch (await detectCompression(file)) {
+    case 'gzip':
+      return [await gunzip(file)];
+    case 'zip': {
+      const entries = (await readZipEntries(file)).filter(entry => {
+        const name = entry.path.split('/').pop() ?? '';
+        return IMPORTABLE_NAME.test(name) && !name.startsWith('.') && !entry.path.startsWith('__MACOSX/');
+      });
+      if (entries.length === 0) {
+        throw new Error(`${file.name} contains no CSV or JSON files.`);
+      }
+      const expanded: File[] = [];
+      for (const entry of entries) {
+        expanded.push(...await expandCompressedFile(await entry.extract()));
+      }
+      return expanded;
+    }
+    default:
+      return [file];
+  }
+};
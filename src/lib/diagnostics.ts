@@ -0,0 +1,59 @@
+import { formatCsvRow } from './csv';
+
+export type DiagnosticReason =
+  | 'short-row'
+  | 'missing-field'
+  | 'invalid-timestamp'
+  | 'extra-timestamps'
+  | 'uncategorized'
+  | 'unmatched-line'
+  | 'unpaired-event'
+  | 'unclosed-event'
+  | 'unsupported-event'
+  | 'malformed-line';
+
+export interface ImportDiagnostic {
+  /** ID of the DataSource the row came from. */
+  source: string;
+  line: number;
+  /** The row as it appeared in the file, or its mapped values when the row was already parsed. */
+  raw: string;
+  reason: DiagnosticReason;
+  detail: string;
+}
+
+export const DIAGNOSTIC_REASONS: Record<DiagnosticReason, { label: string; rejected: boolean }> = {
+  'short-row': { label: 'Too few columns', rejected: true },
+  'missing-field': { label: 'Missing metric ID or timestamp', rejected: true },
+  'invalid-timestamp': { label: 'Invalid timestamp', rejected: true },
+  'extra-timestamps': { label: 'Between start and end', rejected: false },
+  uncategorized: { label: 'Not in any category', rejected: false },
+  'unmatched-line': { label: 'Pattern not matched', rejected: false },
+  'unpaired-event': { label: 'End without a begin', rejected: true },
+  'unclosed-event': { label: 'Begin without an end', rejected: true },
+  'unsupported-event': { label: 'Unsupported trace event', rejected: false },
+  'malformed-line': { label: 'Malformed line', rejected: true },
+};
+
+export const isDiagnostic = (value: object): value is ImportDiagnostic => 'reason' in value;
+
+export const countDiagnosticsByReason = (diagnostics: ImportDiagnostic[]) => {
+  const counts = new Map<DiagnosticReason, number>();
+  diagnostics.forEach(diagnostic => {
+    counts.set(diagnostic.reason, (counts.get(diagnostic.reason) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/** Serializes diagnostics as CSV so they can be handed back to whoever owns the exporter. */
+export const diagnosticsToCsv = (diagnostics: ImportDiagnostic[], sourceNames: Map<string, string>) =>
+  [
+    formatCsvRow(['SOURCE', 'LINE', 'REASON', 'DETAIL', 'RAW']),
+    ...diagnostics.map(diagnostic => formatCsvRow([
+      sourceNames.get(diagnostic.source) ?? diagnostic.source,
+      String(diagnostic.line),
+      DIAGNOSTIC_REASONS[diagnostic.reason].label,
+      diagnostic.detail,
+      diagnostic.raw,
+    ])),
+  ].join('\r\n') + '\r\n';
@@ -0,0 +1,10 @@
+/** Saves generated text through a temporary object URL. */
+export const downloadTextFile = (fileName: string, content: string, type = 'text/csv') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download before the browser reads the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
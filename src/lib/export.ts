@@ -0,0 +1,18 @@
+import { formatAttributeValue } from './attributes';
+import { formatCsvRow } from './csv';
+import type { MetricData } from './metric-data';
+
+/**
+ * Serializes rows back to CSV with one column per attribute key, so extra
+ * columns from the original files are preserved.
+ */
+export const metricDataToCsv = (rows: MetricData[], attributeKeys: string[], sourceNames: Map<string, string>) =>
+  [
+    formatCsvRow(['METRICID', 'TIMESTAMP', 'SOURCE', ...attributeKeys]),
+    ...rows.map(row => formatCsvRow([
+      row.METRICID,
+      row.TIMESTAMP,
+      sourceNames.get(row.SOURCE) ?? row.SOURCE,
+      ...attributeKeys.map(key => formatAttributeValue(row.ATTRIBUTES[key])),
+    ])),
+  ].join('\r\n') + '\r\n';
@@ -0,0 +1,57 @@
+export type DownloadProgressHandler = (loaded: number, total: number) => void;
+
+/** The server answered, but not with a 2xx status. */
+export class DatasetHttpError extends Error {
+  constructor(readonly status: number, statusText: string) {
+    super(`${status} ${statusText || 'request failed'}`.trim());
+    this.name = 'DatasetHttpError';
+  }
+}
+
+/** Network failures and 5xx responses may go away on their own; 4xx responses will not. */
+export const isRetryableFetchError = (error: unknown) =>
+  !(error instanceof DatasetHttpError) || error.status >= 500;
+
+const fileNameFromUrl = (url: URL) => {
+  const segment = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '');
+  return segment || url.hostname || 'dataset';
+};
+
+/**
+ * Downloads a dataset and wraps it in a File named after the URL, so it can go
+ * through the same import path as an upload. The Content-Type becomes the
+ * file's type, which import detection uses as a hint. `total` is 0 when the
+ * server does not send a Content-Length.
+ */
+export const fetchDataset = async (
+  rawUrl: string,
+  onProgress: DownloadProgressHandler,
+  signal?: AbortSignal,
+): Promise<File> => {
+  const url = new URL(rawUrl, window.location.href);
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new DatasetHttpError(response.status, response.statusText);
+  }
+
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  const chunks: BlobPart[] = [];
+  let loaded = 0;
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress(loaded, total);
+    }
+  } else {
+    const blob = await response.blob();
+    chunks.push(blob);
+    onProgress(blob.size, blob.size);
+  }
+
+  return new File(chunks, fileNameFromUrl(url), { type: response.headers.get('Content-Type') ?? '' });
+};
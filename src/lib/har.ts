@@ -0,0 +1,184 @@
+import type { CsvRecord } from './csv';
+import type { JsonRecord } from './json';
+import type { ImportDiagnostic } from './diagnostics';
+import type { AttributeValue, MetricData } from './metric-data';
+import { SPAN_EVENT_ATTRIBUTE, SPAN_ID_ATTRIBUTE } from './otlp';
+
+export interface HarImportOptions {
+  /**
+   * Metric ID template. `{method}`, `{host}`, `{path}`, `{file}`, `{query}`,
+   * `{status}`, `{mime}` and `{page}` are filled from the entry, and
+   * `{name}` from any named group of `urlPattern`. The milestone is not a
+   * token: every milestone of a request shares its ID so they group into one
+   * span, and `har.milestone` tells them apart.
+   */
+  template: string;
+  /** Optional regular expression the URL must match; entries that do not match are skipped. */
+  urlPattern: string;
+}
+
+export const DEFAULT_HAR_IMPORT_OPTIONS: HarImportOptions = {
+  template: '{method} {path}',
+  urlPattern: '',
+};
+
+export type HarMilestone = 'start' | 'ttfb' | 'end';
+
+interface HarEntry {
+  startedDateTime?: string;
+  time?: number;
+  pageref?: string;
+  serverIPAddress?: string;
+  request?: { method?: string; url?: string };
+  response?: { status?: number; content?: { mimeType?: string; size?: number } };
+  timings?: Record<string, number | undefined>;
+}
+
+/** One entry reduced to what templates and the preview need. */
+export interface HarRequest {
+  url: string;
+  tokens: Record<string, string>;
+  start: Date | null;
+  ttfbMs: number;
+  totalMs: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+// Phases before the first response byte; -1 marks a phase that did not apply.
+const TTFB_PHASES = ['blocked', 'dns', 'connect', 'send', 'wait'];
+
+export const looksLikeHar = (head: string) => /^\s*\{\s*"log"\s*:\s*\{/.test(head);
+
+const phase = (timings: HarEntry['timings'], name: string) => {
+  const value = timings?.[name];
+  return typeof value === 'number' && value > 0 ? value : 0;
+};
+
+const parseUrl = (url: string) => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+/** Flattens the entries of a HAR document; entries with an unparseable URL keep empty URL tokens. */
+export const readHarRequests = (document: unknown): HarRequest[] => {
+  const entries = (document as { log?: { entries?: HarEntry[] } } | null)?.log?.entries;
+  if (!Array.isArray(entries)) return [];
+
+  return entries.map(entry => {
+    const url = entry.request?.url ?? '';
+    const parsed = parseUrl(url);
+    const start = entry.startedDateTime ? new Date(entry.startedDateTime) : null;
+    const ttfbMs = TTFB_PHASES.reduce((sum, name) => sum + phase(entry.timings, name), 0);
+    const totalMs = typeof entry.time === 'number' ? entry.time : ttfbMs + phase(entry.timings, 'receive');
+    const path = parsed?.pathname ?? '';
+
+    const attributes: Record<string, AttributeValue> = { url, 'har.ttfb_ms': ttfbMs, 'span.duration_ms': totalMs };
+    const set = (key: string, value: AttributeValue | undefined) => {
+      if (value !== undefined && value !== '') attributes[key] = value;
+    };
+    set('method', entry.request?.method);
+    set('status', entry.response?.status);
+    set('mime_type', entry.response?.content?.mimeType);
+    set('size', entry.response?.content?.size);
+    set('page', entry.pageref);
+    set('server_ip', entry.serverIPAddress);
+    Object.keys(entry.timings ?? {}).forEach(name => set(`har.timings.${name}`, entry.timings?.[name]));
+
+    return {
+      url,
+      tokens: {
+        method: entry.request?.method ?? '',
+        host: parsed?.host ?? '',
+        path,
+        file: path.split('/').pop() ?? '',
+        query: parsed?.search ?? '',
+        status: entry.response?.status === undefined ? '' : String(entry.response.status),
+        mime: entry.response?.content?.mimeType ?? '',
+        page: entry.pageref ?? '',
+      },
+      start: start && !isNaN(start.getTime()) ? start : null,
+      ttfbMs,
+      totalMs,
+      attributes,
+    };
+  });
+};
+
+const TOKEN_NAMES = ['method', 'host', 'path', 'file', 'query', 'status', 'mime', 'page'];
+
+/** Preview columns: the URL, every template token and the two timings. */
+export const HAR_PREVIEW_HEADERS = ['url', ...TOKEN_NAMES, 'ttfb_ms', 'total_ms'];
+
+export const toHarRecords = (requests: HarRequest[], line: number): CsvRecord[] =>
+  requests.map(request => ({
+    fields: [request.url, ...TOKEN_NAMES.map(name => request.tokens[name]), String(request.ttfbMs), String(request.totalMs)],
+    line,
+  }));
+
+/** Rebuilds enough of a request from a preview record to format its ID. */
+export const harRequestFromRecord = (record: CsvRecord): HarRequest => ({
+  url: record.fields[0],
+  tokens: Object.fromEntries(TOKEN_NAMES.map((name, index) => [name, record.fields[index + 1] ?? ''])),
+  start: null,
+  ttfbMs: Number(record.fields[TOKEN_NAMES.length + 1]),
+  totalMs: Number(record.fields[TOKEN_NAMES.length + 2]),
+  attributes: {},
+});
+
+/**
+ * Compiles the options into a function that names a request, or returns
+ * `null` when the URL pattern does not match. Throws on an invalid URL
+ * pattern.
+ */
+export const createHarIdFormatter = (options: HarImportOptions) => {
+  const pattern = options.urlPattern ? new RegExp(options.urlPattern) : null;
+  return (request: HarRequest): string | null => {
+    const match = pattern ? pattern.exec(request.url) : null;
+    if (pattern && !match) return null;
+    const tokens: Record<string, string> = { ...request.tokens, ...match?.groups };
+    return options.template.replace(/\{(\w+)\}/g, (placeholder, name: string) => tokens[name] ?? placeholder).trim();
+  };
+};
+
+/**
+ * Returns a converter from HAR documents to rows tagged with `source`. Each
+ * entry becomes a start and an end row sharing a span ID, so it draws as a
+ * start/end pair, plus a time-to-first-byte row drawn as an instant marker.
+ */
+export const createHarEntryMapper = (options: HarImportOptions, source: string) => {
+  const formatId = createHarIdFormatter(options);
+  let nextEntry = 1;
+
+  return (record: JsonRecord): (MetricData | ImportDiagnostic)[] =>
+    readHarRequests(record.value).flatMap((request): (MetricData | ImportDiagnostic)[] => {
+      const entryId = `har-${nextEntry++}`;
+      const reject = (reason: ImportDiagnostic['reason'], detail: string): ImportDiagnostic[] => [{
+        source,
+        line: record.line,
+        raw: request.url,
+        reason,
+        detail,
+      }];
+
+      const metricId = formatId(request);
+      if (metricId === null) return reject('unmatched-line', 'The URL does not match the URL pattern.');
+      const start = request.start;
+      if (!start) return reject('missing-field', "The entry has no valid 'startedDateTime'.");
+
+      const toRow = (event: HarMilestone, offsetMs: number, spanId: string, kind: string): MetricData => ({
+        METRICID: metricId,
+        TIMESTAMP: new Date(start.getTime() + offsetMs).toISOString(),
+        SOURCE: source,
+        LINE: record.line,
+        ATTRIBUTES: { ...request.attributes, 'har.milestone': event, [SPAN_ID_ATTRIBUTE]: spanId, [SPAN_EVENT_ATTRIBUTE]: kind },
+      });
+      return [
+        toRow('start', 0, entryId, 'start'),
+        toRow('ttfb', request.ttfbMs, `${entryId}:ttfb`, 'instant'),
+        toRow('end', request.totalMs, entryId, 'end'),
+      ];
+    });
+};
@@ -0,0 +1,110 @@
+import { SPAN_ID_ATTRIBUTE } from './otlp';
+import { formatAttributeValue } from './attributes';
+import { createIdMatcher, dropInvalidPatterns, splitPatternList } from './patterns';
+import { createTimestampParser, type TimestampOptions } from './timestamps';
+import type { MetricData } from './metric-data';
+
+export type SamplingMode = 'none' | 'every-nth' | 'fraction';
+
+export const SAMPLING_MODES: Record<SamplingMode, string> = {
+  none: 'Keep every event',
+  'every-nth': 'Every Nth event per metric',
+  fraction: 'Fraction of events per metric',
+};
+
+/** Restrictions applied while a file is read, so dropped rows never reach the chart data. */
+export interface ImportFilters {
+  /** Earliest timestamp kept, as a `datetime-local` value in the browser's zone; empty for no bound. */
+  from: string;
+  /** Latest timestamp kept, in the same form as `from`. */
+  to: string;
+  /** Pattern list (see patterns.ts) of metric IDs to keep; empty keeps every ID. */
+  include: string;
+  /** Pattern list of metric IDs to drop; wins over `include`. */
+  exclude: string;
+  sampling: SamplingMode;
+  /** Keeps the 1st, (N+1)th, ... event of each metric in 'every-nth' mode. */
+  every: number;
+  /** Share of each metric's events kept in 'fraction' mode, between 0 and 1. */
+  fraction: number;
+}
+
+export const DEFAULT_IMPORT_FILTERS: ImportFilters = {
+  from: '',
+  to: '',
+  include: '',
+  exclude: '',
+  sampling: 'none',
+  every: 10,
+  fraction: 0.1,
+};
+
+export const hasImportFilters = (filters: ImportFilters) =>
+  Boolean(filters.from || filters.to || filters.include.trim() || filters.exclude.trim()) || filters.sampling !== 'none';
+
+const parseBound = (value: string) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Decides, per metric, which events sampling keeps. Rows of one span (its
+ * start and end) share a decision so sampled spans stay paired; other rows
+ * are sampled one by one. Both modes count events, so the same file always
+ * yields the same rows.
+ */
+const createSampler = ({ sampling, every, fraction }: ImportFilters) => {
+  if (sampling === 'none') return () => true;
+  const counts = new Map<string, number>();
+  const spanDecisions = new Map<string, boolean>();
+  const step = Math.max(1, Math.floor(every));
+  const share = Math.min(1, Math.max(0, fraction));
+
+  const decide = (metricId: string) => {
+    const index = counts.get(metricId) ?? 0;
+    counts.set(metricId, index + 1);
+    return sampling === 'every-nth'
+      ? index % step === 0
+      // Spreads the kept events evenly: the count of kept events steps up by one every 1/share events.
+      : Math.ceil((index + 1) * share) > Math.ceil(index * share);
+  };
+
+  return (row: MetricData) => {
+    const spanId = formatAttributeValue(row.ATTRIBUTES[SPAN_ID_ATTRIBUTE]);
+    if (!spanId) return decide(row.METRICID);
+    const spanKey = `${row.METRICID}\u0000${spanId}`;
+    const known = spanDecisions.get(spanKey);
+    if (known !== undefined) return known;
+    const decision = decide(row.METRICID);
+    spanDecisions.set(spanKey, decision);
+    return decision;
+  };
+};
+
+/**
+ * Compiles the filters into a predicate over mapped rows. It is stateful
+ * (sampling counts what it has seen), so each import needs its own. Rows whose
+ * timestamp cannot be parsed pass the time range and are reported later, like
+ * any other unreadable timestamp. Invalid patterns are left out, as
+ * ImportFilterSettings points them out.
+ */
+export const createImportFilter = (filters: ImportFilters, timestampOptions: TimestampOptions) => {
+  const from = parseBound(filters.from);
+  const to = parseBound(filters.to);
+  const parseTimestamp = createTimestampParser(timestampOptions);
+  const includes = dropInvalidPatterns(splitPatternList(filters.include));
+  const isIncluded = includes.length > 0 ? createIdMatcher(includes) : () => true;
+  const isExcluded = createIdMatcher(dropInvalidPatterns(splitPatternList(filters.exclude)));
+  const sample = createSampler(filters);
+
+  const inRange = (row: MetricData) => {
+    if (from === null && to === null) return true;
+    const time = parseTimestamp(row.TIMESTAMP)?.getTime();
+    if (time === undefined) return true;
+    return (from === null || time >= from) && (to === null || time <= to);
+  };
+
+  return (row: MetricData) =>
+    isIncluded(row.METRICID) && !isExcluded(row.METRICID) && inRange(row) && sample(row);
+};
@@ -0,0 +1,145 @@
+import { JsonArrayTokenizer, JsonParseError, type JsonRecord } from '../json';
+import { createTraceEventMapper, looksLikeChromeTrace } from '../trace-events';
+import { createMappedReader } from './reader';
+import type { Importer } from './types';
+
+/**
+ * Streams trace events out of either document form. A bare array goes
+ * straight to a JsonArrayTokenizer; in the object form only the
+ * `traceEvents` array is passed on, element by element, and every other
+ * top-level value is skipped without being held in memory.
+ */
+class TraceDocumentTokenizer {
+  private form: 'unknown' | 'array' | 'object' = 'unknown';
+  private events: JsonArrayTokenizer | null = null;
+  // Lines before the events array, added to the line numbers its tokenizer reports.
+  private lineOffset = 0;
+  private line = 1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private expectKey = false;
+  private key = '';
+  private lastKey = '';
+  private awaitingValue = false;
+  private eventsDone = false;
+
+  push(chunk: string): JsonRecord[] {
+    if (this.form === 'array') return this.shift((this.events as JsonArrayTokenizer).push(chunk));
+    let records: JsonRecord[] = [];
+    let forwardFrom = this.events ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.form === 'unknown') {
+        if (ch === '[') {
+          this.form = 'array';
+          this.lineOffset = this.line - 1;
+          this.startEvents();
+          return this.shift((this.events as JsonArrayTokenizer).push(chunk.slice(i)));
+        }
+        if (ch === '{') {
+          this.form = 'object';
+          this.depth = 1;
+          this.expectKey = true;
+        } else if (ch === '\n') {
+          this.line++;
+        } else if (!/\s|\uFEFF/.test(ch)) {
+          throw new JsonParseError('Expected a JSON array or object', this.line);
+        }
+        continue;
+      }
+
+      if (ch === '\n') this.line++;
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        else if (this.depth === 1 && this.expectKey) this.key += ch;
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+        if (this.depth === 1 && this.expectKey) this.key = '';
+        this.awaitingValue = false;
+      } else if (ch === ':' && this.depth === 1) {
+        this.expectKey = false;
+        this.lastKey = this.key;
+        this.awaitingValue = true;
+      } else if (ch === ',' && this.depth === 1) {
+        this.expectKey = true;
+      } else if (ch === '{' || ch === '[') {
+        if (ch === '[' && this.awaitingValue && this.lastKey === 'traceEvents' && !this.eventsDone) {
+          this.lineOffset = this.line - 1;
+          this.startEvents();
+          forwardFrom = i;
+        }
+        this.awaitingValue = false;
+        this.depth++;
+      } else if (ch === '}' || ch === ']') {
+        this.depth--;
+        if (this.events && this.depth === 1) {
+          records = records.concat(this.finishEvents(chunk.slice(forwardFrom, i + 1)));
+          forwardFrom = -1;
+        }
+      } else if (!/\s/.test(ch)) {
+        this.awaitingValue = false;
+      }
+    }
+
+    if (this.events && forwardFrom !== -1) {
+      records = records.concat(this.shift(this.events.push(chunk.slice(forwardFrom))));
+    }
+    return records;
+  }
+
+  end(): JsonRecord[] {
+    if (this.events) {
+      const events = this.events;
+      this.events = null;
+      return this.shift(events.end());
+    }
+    if (this.form === 'unknown') throw new JsonParseError('The file contains no JSON data', this.line);
+    if (this.depth !== 0) throw new JsonParseError('Unexpected end of JSON input', this.line);
+    return [];
+  }
+
+  private startEvents() {
+    this.events = new JsonArrayTokenizer({ allowUnterminated: true });
+  }
+
+  private finishEvents(tail: string) {
+    const events = this.events as JsonArrayTokenizer;
+    this.events = null;
+    this.eventsDone = true;
+    return this.shift(events.push(tail).concat(events.end()));
+  }
+
+  private shift(records: JsonRecord[]) {
+    return this.lineOffset === 0 ? records : records.map(record => ({ ...record, line: record.line + this.lineOffset }));
+  }
+}
+
+/** Trace events have a fixed layout, so there is nothing to configure. */
+export const chromeTraceImporter: Importer<Record<string, never>> = {
+  id: 'chrome-trace',
+  label: 'Chrome trace events / Perfetto JSON',
+  extensions: [],
+  sniff: head => looksLikeChromeTrace(head.replace(/^\uFEFF/, '')),
+
+  // Reading the slice only surfaces syntax errors early.
+  preview({ text }) {
+    new TraceDocumentTokenizer().push(text);
+    return { headers: [], rows: [] };
+  },
+
+  initialConfig: () => ({}),
+
+  createReader: (_config, _dialect, sourceId) => {
+    const { mapRecord, flushOpenSlices } = createTraceEventMapper(sourceId);
+    return createMappedReader(new TraceDocumentTokenizer(), mapRecord, flushOpenSlices);
+  },
+};
@@ -0,0 +1,57 @@
+import { CsvTokenizer, type CsvRecord } from '../csv';
+import {
+  createRowMapper,
+  headerSignature,
+  loadSavedColumnMapping,
+  suggestColumnMapping,
+  uniqueHeaders,
+  type ColumnMapping,
+} from '../column-mapping';
+import type { ImportDiagnostic } from '../diagnostics';
+import type { MetricData } from '../metric-data';
+import { syntheticHeaders } from '../sniff';
+import { createMappedReader } from './reader';
+import type { Importer } from './types';
+
+export const delimitedImporter: Importer<ColumnMapping> = {
+  id: 'csv',
+  label: 'Delimited text (CSV, TSV)',
+  extensions: ['.csv', '.tsv', '.txt'],
+  mediaTypes: ['text/csv', 'text/tab-separated-values'],
+  delimited: true,
+  configStep: 'field-mapping',
+
+  preview({ text, isWholeFile, dialect }) {
+    const tokenizer = new CsvTokenizer(dialect.delimiter);
+    const records = tokenizer.push(text);
+    if (isWholeFile) records.push(...tokenizer.end());
+    if (records.length === 0) throw new Error('CSV file is empty.');
+    return {
+      headers: dialect.hasHeader ? uniqueHeaders(records[0].fields) : syntheticHeaders(records[0].fields.length),
+      rows: dialect.hasHeader ? records.slice(1) : records,
+    };
+  },
+
+  initialConfig: ({ headers, rows }) => loadSavedColumnMapping(headers) ?? suggestColumnMapping(headers, rows),
+
+  batchKey: ({ headers }) => headerSignature(headers),
+
+  createReader(mapping, dialect, sourceId) {
+    let mapRow: ((record: CsvRecord) => MetricData | ImportDiagnostic) | null = null;
+
+    // The mapper is built from the header row, or from the width of the first
+    // record when the file has none.
+    const mapRecord = (record: CsvRecord) => {
+      if (!mapRow) {
+        if (dialect.hasHeader) {
+          mapRow = createRowMapper(uniqueHeaders(record.fields), mapping, sourceId, dialect.delimiter);
+          return null;
+        }
+        mapRow = createRowMapper(syntheticHeaders(record.fields.length), mapping, sourceId, dialect.delimiter);
+      }
+      return mapRow(record);
+    };
+
+    return createMappedReader(new CsvTokenizer(dialect.delimiter), mapRecord);
+  },
+};
@@ -0,0 +1,41 @@
+import { JsonArrayTokenizer } from '../json';
+import {
+  DEFAULT_HAR_IMPORT_OPTIONS,
+  HAR_PREVIEW_HEADERS,
+  createHarEntryMapper,
+  looksLikeHar,
+  readHarRequests,
+  toHarRecords,
+  type HarImportOptions,
+} from '../har';
+import { createMappedReader } from './reader';
+import type { Importer } from './types';
+
+// HAR files are one document, so previewing entries means reading all of it.
+const HAR_PREVIEW_BYTES = 32 * 1024 * 1024;
+
+export const harImporter: Importer<HarImportOptions> = {
+  id: 'har',
+  label: 'HAR (browser network log)',
+  extensions: ['.har'],
+  sniff: head => looksLikeHar(head.replace(/^\uFEFF/, '')),
+  configStep: 'har',
+
+  async preview({ file, text, isWholeFile, dialect }) {
+    const wholeText = isWholeFile || file.size > HAR_PREVIEW_BYTES
+      ? text
+      : new TextDecoder(dialect.encoding).decode(await file.arrayBuffer());
+    const tokenizer = new JsonArrayTokenizer();
+    const records = tokenizer.push(wholeText);
+    if (file.size <= HAR_PREVIEW_BYTES) records.push(...tokenizer.end());
+    const rows = records.flatMap(record => toHarRecords(readHarRequests(record.value), record.line));
+    return { headers: HAR_PREVIEW_HEADERS, rows };
+  },
+
+  initialConfig: () => DEFAULT_HAR_IMPORT_OPTIONS,
+  // Every queued HAR file is named with the same template.
+  batchKey: () => '',
+
+  createReader: (options, _dialect, sourceId) =>
+    createMappedReader(new JsonArrayTokenizer(), createHarEntryMapper(options, sourceId)),
+};
@@ -0,0 +1,50 @@
+import { chromeTraceImporter } from './chrome-trace';
+import { delimitedImporter } from './delimited';
+import { harImporter } from './har';
+import { jsonImporter, ndjsonImporter } from './json';
+import { logImporter } from './log';
+import { otlpImporter } from './otlp';
+import { prometheusImporter } from './prometheus';
+import type { Importer } from './types';
+
+export type { ConfigStepKey, Importer, ImporterPreview, PreviewInput, ReadResult, RowReader } from './types';
+export type { LogImportConfig } from './log';
+
+/**
+ * Every known input format, in sniffing order: specific content checks come
+ * before the generic JSON ones, and delimited text is the fallback.
+ */
+export const IMPORTERS: Importer[] = [
+  prometheusImporter,
+  otlpImporter,
+  chromeTraceImporter,
+  harImporter,
+  jsonImporter,
+  ndjsonImporter,
+  logImporter,
+  delimitedImporter,
+];
+
+const FALLBACK_IMPORTER = delimitedImporter;
+
+/** The file picker's accept list: every importer's extensions plus the compressed containers. */
+export const IMPORT_ACCEPT = IMPORTERS.flatMap(importer => importer.extensions).concat('.gz', '.zip').join(',');
+
+export const getImporter = (id: string): Importer => {
+  const importer = IMPORTERS.find(candidate => candidate.id === id);
+  if (!importer) throw new Error(`Unknown import format "${id}".`);
+  return importer;
+};
+
+/**
+ * Picks the importer for a file: a specific media type wins, then content
+ * sniffing, then the file extension, then delimited text.
+ */
+export const detectImporter = (fileName: string, head: string, bytes: Uint8Array, mediaType = ''): Importer => {
+  const name = fileName.toLowerCase();
+  const essence = mediaType.split(';')[0].trim().toLowerCase();
+  return (essence ? IMPORTERS.find(importer => importer.mediaTypes?.includes(essence)) : undefined)
+    ?? IMPORTERS.find(importer => importer.sniff?.(head, bytes))
+    ?? IMPORTERS.find(importer => importer.extensions.some(extension => name.endsWith(extension)))
+    ?? FALLBACK_IMPORTER;
+};
@@ -0,0 +1,53 @@
+import { headerSignature, loadSavedColumnMapping, suggestColumnMapping, type ColumnMapping } from '../column-mapping';
+import {
+  JsonArrayTokenizer,
+  NdjsonTokenizer,
+  collectFieldPaths,
+  createFieldPathMapper,
+  isLineDelimitedJson,
+  toFieldRecords,
+} from '../json';
+import { createMappedReader } from './reader';
+import type { Importer, PreviewInput } from './types';
+
+const createTokenizer = (lineDelimited: boolean) => (lineDelimited ? new NdjsonTokenizer() : new JsonArrayTokenizer());
+
+const previewObjects = (lineDelimited: boolean) => ({ text, isWholeFile }: PreviewInput) => {
+  const tokenizer = createTokenizer(lineDelimited);
+  const records = tokenizer.push(text);
+  if (isWholeFile) records.push(...tokenizer.end());
+  const headers = collectFieldPaths(records);
+  if (headers.length === 0) throw new Error('JSON file contains no objects with fields.');
+  return { headers, rows: toFieldRecords(headers, records) };
+};
+
+const content = (head: string) => head.replace(/^\uFEFF/, '').trimStart();
+
+/** A top-level array, or a single pretty-printed object. */
+export const jsonImporter: Importer<ColumnMapping> = {
+  id: 'json',
+  label: 'JSON',
+  extensions: ['.json'],
+  sniff: head => content(head).startsWith('[') || (content(head).startsWith('{') && !isLineDelimitedJson(content(head))),
+  configStep: 'field-mapping',
+  preview: previewObjects(false),
+  initialConfig: ({ headers, rows }) => loadSavedColumnMapping(headers) ?? suggestColumnMapping(headers, rows),
+  batchKey: ({ headers }) => headerSignature(headers),
+  createReader: (mapping, _dialect, sourceId) =>
+    createMappedReader(createTokenizer(false), createFieldPathMapper(mapping, sourceId)),
+};
+
+/** One object per line; a complete object on the first line is what tells it apart from JSON. */
+export const ndjsonImporter: Importer<ColumnMapping> = {
+  id: 'ndjson',
+  label: 'Newline-delimited JSON',
+  extensions: ['.ndjson', '.jsonl'],
+  mediaTypes: ['application/x-ndjson', 'application/jsonl', 'application/jsonlines'],
+  sniff: head => content(head).startsWith('{') && isLineDelimitedJson(content(head)),
+  configStep: 'field-mapping',
+  preview: previewObjects(true),
+  initialConfig: ({ headers, rows }) => loadSavedColumnMapping(headers) ?? suggestColumnMapping(headers, rows),
+  batchKey: ({ headers }) => headerSignature(headers),
+  createReader: (mapping, _dialect, sourceId) =>
+    createMappedReader(createTokenizer(true), createFieldPathMapper(mapping, sourceId)),
+};
@@ -0,0 +1,30 @@
+import { LineTokenizer, createLogLineMapper, toLineRecords } from '../logs';
+import { createMappedReader } from './reader';
+import type { Importer } from './types';
+
+export interface LogImportConfig {
+  /** Named-group pattern applied to each line. */
+  pattern: string;
+}
+
+/** Plain-text lines split by a user-supplied regular expression. */
+export const logImporter: Importer<LogImportConfig> = {
+  id: 'log',
+  label: 'Log lines',
+  extensions: ['.log'],
+  configStep: 'log-pattern',
+
+  preview({ text, isWholeFile }) {
+    const tokenizer = new LineTokenizer();
+    const lines = tokenizer.push(text);
+    if (isWholeFile) lines.push(...tokenizer.end());
+    if (lines.length === 0) throw new Error('Log file is empty.');
+    return { headers: [], rows: toLineRecords(lines) };
+  },
+
+  // The pattern step starts from the best-matching saved profile instead.
+  initialConfig: () => ({}),
+
+  createReader: ({ pattern }, _dialect, sourceId) =>
+    createMappedReader(new LineTokenizer(), createLogLineMapper(pattern, sourceId)),
+};
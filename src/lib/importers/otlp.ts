@@ -0,0 +1,65 @@
+import { JsonArrayTokenizer, NdjsonTokenizer, isLineDelimitedJson, type JsonRecord } from '../json';
+import {
+  DEFAULT_SPAN_IMPORT_OPTIONS,
+  collectSpanAttributeKeys,
+  createOtlpSpanMapper,
+  flattenOtlpSpans,
+  looksLikeOtlpTraces,
+  toSpanRecords,
+  type SpanImportOptions,
+} from '../otlp';
+import { createMappedReader } from './reader';
+import type { Importer } from './types';
+
+/**
+ * Reads either one export document or one per line (as the collector's file
+ * exporter writes); which one is only known once the first line is complete,
+ * so text is held back until then and replayed.
+ */
+class OtlpDocumentTokenizer {
+  private tokenizer: JsonArrayTokenizer | NdjsonTokenizer | null = null;
+  private head = '';
+
+  push(chunk: string): JsonRecord[] {
+    if (this.tokenizer) return this.tokenizer.push(chunk);
+    this.head += chunk;
+    return this.head.includes('\n') ? this.start().push(this.head) : [];
+  }
+
+  end(): JsonRecord[] {
+    if (this.tokenizer) return this.tokenizer.end();
+    const tokenizer = this.start();
+    return tokenizer.push(this.head).concat(tokenizer.end());
+  }
+
+  private start() {
+    this.tokenizer = isLineDelimitedJson(this.head) ? new NdjsonTokenizer() : new JsonArrayTokenizer();
+    return this.tokenizer;
+  }
+}
+
+export const otlpImporter: Importer<SpanImportOptions> = {
+  id: 'otlp',
+  label: 'OpenTelemetry traces (OTLP JSON)',
+  extensions: [],
+  sniff: head => looksLikeOtlpTraces(head.replace(/^\uFEFF/, '')),
+  configStep: 'spans',
+
+  // A single export larger than the preview slice yields no spans here; the
+  // import step then only offers keying by span name.
+  preview({ text, isWholeFile }) {
+    const tokenizer = new OtlpDocumentTokenizer();
+    const records = tokenizer.push(text);
+    if (isWholeFile) records.push(...tokenizer.end());
+    const documents = records.map(record => ({ line: record.line, spans: flattenOtlpSpans(record.value) }));
+    const headers = collectSpanAttributeKeys(documents.flatMap(document => document.spans));
+    return { headers, rows: documents.flatMap(document => toSpanRecords(headers, document.spans, document.line)) };
+  },
+
+  initialConfig: () => DEFAULT_SPAN_IMPORT_OPTIONS,
+  // Every queued trace export is read with the same options.
+  batchKey: () => '',
+
+  createReader: (options, _dialect, sourceId) =>
+    createMappedReader(new OtlpDocumentTokenizer(), createOtlpSpanMapper(options, sourceId)),
+};
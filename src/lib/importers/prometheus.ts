@@ -0,0 +1,40 @@
+import { LineTokenizer } from '../logs';
+import {
+  DEFAULT_PROMETHEUS_IMPORT_OPTIONS,
+  createPrometheusLineMapper,
+  detectPrometheusFormat,
+  looksLikePrometheusText,
+  sampleFromRecord,
+  toSampleRecords,
+  type PrometheusImportOptions,
+} from '../prometheus';
+import { createMappedReader } from './reader';
+import type { Importer } from './types';
+
+export const prometheusImporter: Importer<PrometheusImportOptions> = {
+  id: 'prometheus',
+  label: 'Prometheus / OpenMetrics text',
+  extensions: ['.prom'],
+  mediaTypes: ['application/openmetrics-text'],
+  sniff: head => looksLikePrometheusText(head.replace(/^\uFEFF/, '')),
+  configStep: 'prometheus',
+
+  preview({ text, isWholeFile }) {
+    const tokenizer = new LineTokenizer();
+    const lines = tokenizer.push(text);
+    if (isWholeFile) lines.push(...tokenizer.end());
+    const preview = toSampleRecords(lines);
+    if (preview.rows.length === 0) throw new Error('No samples found in the exposition file.');
+    return preview;
+  },
+
+  initialConfig: ({ headers, rows }) => ({
+    ...DEFAULT_PROMETHEUS_IMPORT_OPTIONS,
+    format: detectPrometheusFormat(rows.map(record => sampleFromRecord(headers, record))),
+  }),
+  // Queued exposition files of one format are keyed by the same labels.
+  batchKey: ({ headers, rows }) => detectPrometheusFormat(rows.map(record => sampleFromRecord(headers, record))),
+
+  createReader: (options, _dialect, sourceId) =>
+    createMappedReader(new LineTokenizer(), createPrometheusLineMapper(options, sourceId)),
+};
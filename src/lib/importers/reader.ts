@@ -0,0 +1,42 @@
+import { isDiagnostic, type ImportDiagnostic } from '../diagnostics';
+import type { MetricData } from '../metric-data';
+import type { ReadResult, RowReader } from './types';
+
+export type Mapped = MetricData | ImportDiagnostic;
+
+interface Tokenizer<T> {
+  push: (chunk: string) => T[];
+  end: () => T[];
+}
+
+// Mappers return one row per record, none (e.g. a header row), or several when
+// one record holds many events.
+const splitMapped = (mapped: (Mapped | Mapped[] | null)[]): ReadResult => {
+  const result: ReadResult = { rows: [], rejected: [] };
+  mapped.forEach(items => {
+    if (!items) return;
+    (Array.isArray(items) ? items : [items]).forEach(item => {
+      if (isDiagnostic(item)) result.rejected.push(item);
+      else result.rows.push(item);
+    });
+  });
+  return result;
+};
+
+/**
+ * Pairs a tokenizer with a record mapper, the shape almost every importer's
+ * reader takes. `finish` adds what a stateful mapper still holds once the
+ * input ends.
+ */
+export const createMappedReader = <T>(
+  tokenizer: Tokenizer<T>,
+  mapRecord: (record: T) => Mapped | Mapped[] | null,
+  finish?: () => Mapped[],
+): RowReader => ({
+  push: text => splitMapped(tokenizer.push(text).map(mapRecord)),
+  end: () => {
+    const mapped = tokenizer.end().map(mapRecord);
+    if (finish) mapped.push(finish());
+    return splitMapped(mapped);
+  },
+});
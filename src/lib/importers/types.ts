@@ -0,0 +1,71 @@
+import type { CsvRecord } from '../csv';
+import type { ImportDiagnostic } from '../diagnostics';
+import type { MetricData } from '../metric-data';
+import type { ImportDialect } from '../sniff';
+
+export interface ReadResult {
+  rows: MetricData[];
+  rejected: ImportDiagnostic[];
+}
+
+/** Turns decoded text, chunk by chunk, into normalized events. */
+export interface RowReader {
+  push: (text: string) => ReadResult;
+  end: () => ReadResult;
+}
+
+export interface PreviewInput {
+  file: File;
+  /** Decoded beginning of the file. */
+  text: string;
+  /** Whether `text` holds the whole file. */
+  isWholeFile: boolean;
+  dialect: ImportDialect;
+}
+
+export interface ImporterPreview {
+  /** Column names, field paths or whatever the importer's config step lists. */
+  headers: string[];
+  /** Sample records for the config step, fields aligned to `headers`. */
+  rows: CsvRecord[];
+}
+
+/** The settings dialogs an import can ask for before ingesting; see ImportConfigDialog. */
+export type ConfigStepKey = 'field-mapping' | 'log-pattern' | 'spans' | 'har' | 'prometheus';
+
+/**
+ * One input format. Importers are peers: detection, preview, the config step
+ * and the worker all go through this interface, so a new format only needs an
+ * entry in the registry (and, if it asks for settings, a config step).
+ */
+export interface Importer<TConfig = unknown> {
+  id: string;
+  label: string;
+  /** Lower-case file extensions including the dot, used for the file picker and as a fallback match. */
+  extensions: string[];
+  /**
+   * Media types (without parameters) that name this format outright, such as
+   * a download's Content-Type. Checked before sniffing, so generic types like
+   * application/json do not belong here.
+   */
+  mediaTypes?: string[];
+  /** Recognises the format from the decoded head of the file or its leading bytes; checked before extensions. */
+  sniff?(head: string, bytes: Uint8Array): boolean;
+  /** Whether the delimiter and header-row settings apply. */
+  delimited?: boolean;
+  /**
+   * The settings step the import asks for first; without one the file is
+   * ingested with `initialConfig` straight away.
+   */
+  configStep?: ConfigStepKey;
+  /** Reads the sample the config step shows. Throws on content it cannot read. */
+  preview(input: PreviewInput): ImporterPreview | Promise<ImporterPreview>;
+  initialConfig(preview: ImporterPreview): Partial<TConfig>;
+  /**
+   * Queued files with the same key reuse the config confirmed for the first
+   * of them. Without it every file is configured separately.
+   */
+  batchKey?(preview: ImporterPreview): string;
+  /** Runs in the ingest worker; `config` has been through structured cloning. */
+  createReader(config: TConfig, dialect: ImportDialect, sourceId: string): RowReader;
+}
@@ -0,0 +1,120 @@
+import type { CsvRecord } from './csv';
+import { detectImporter, getImporter } from './importers';
+import type { ImportFilters } from './import-filters';
+import type { TimestampOptions } from './timestamps';
+import { DEFAULT_IMPORT_DIALECT, detectEncoding, sniffDelimitedText, type ImportDialect } from './sniff';
+import type { ImportDiagnostic } from './diagnostics';
+import type { MetricData } from './metric-data';
+
+const PREVIEW_BYTES = 256 * 1024;
+
+export interface ImportPreview {
+  /** Registry id of the importer that read the preview. */
+  importerId: string;
+  /** The dialect the preview was read with: the override if one was given, else the guess. */
+  dialect: ImportDialect;
+  /** What sniffing the file suggested, shown next to the override controls. */
+  detectedDialect: ImportDialect;
+  /**
+   * CSV header names (or `column_N` without a header row), the dotted field
+   * paths found in JSON objects, or whatever else the importer lists. Empty
+   * for log files.
+   */
+  headers: string[];
+  /** Preview records; for log files each holds the raw line as its only field. */
+  rows: CsvRecord[];
+}
+
+export interface PreviewOptions {
+  /** Replaces the sniffed encoding, delimiter and header setting. */
+  dialect?: ImportDialect;
+  /** Replaces the detected importer, e.g. to read a .txt file as log lines. */
+  importerId?: string;
+}
+
+export type IngestRequest = {
+  type: 'start';
+  file: File;
+  importerId: string;
+  dialect: ImportDialect;
+  /** The importer's settings as confirmed in its config step. */
+  config: unknown;
+  /** Rows failing these are dropped in the worker instead of being posted. */
+  filters: ImportFilters;
+  /** How TIMESTAMP values are read for the filters' time range. */
+  timestampOptions: TimestampOptions;
+  sourceId: string;
+};
+
+export type IngestMessage =
+  | { type: 'batch'; rows: MetricData[]; rejected: ImportDiagnostic[]; bytesRead: number; totalBytes: number }
+  | { type: 'done'; rowCount: number; skippedCount: number }
+  | { type: 'error'; message: string };
+
+export interface IngestHandlers {
+  onBatch: (rows: MetricData[], rejected: ImportDiagnostic[], progress: number) => void;
+  onDone: (rowCount: number, skippedCount: number) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Tokenizes only the beginning of a file, enough for the header row (or the
+ * JSON field paths) and a preview for the importer's config step. The encoding,
+ * delimiter and header row are sniffed from the same slice unless `override`
+ * is given. Parse errors in that slice surface immediately; a record cut off
+ * by the slice boundary is left out.
+ */
+export const readImportPreview = async (file: File, options: PreviewOptions = {}): Promise<ImportPreview> => {
+  const override = options.dialect;
+  const bytes = new Uint8Array(await file.slice(0, PREVIEW_BYTES).arrayBuffer());
+  const isWholeFile = file.size <= PREVIEW_BYTES;
+  const detectedEncoding = detectEncoding(bytes);
+  const decode = (encoding: ImportDialect['encoding']) =>
+    new TextDecoder(encoding).decode(bytes, { stream: !isWholeFile });
+
+  const detectedText = decode(detectedEncoding);
+  const text = override && override.encoding !== detectedEncoding ? decode(override.encoding) : detectedText;
+  const importer = options.importerId ? getImporter(options.importerId) : detectImporter(file.name, text, bytes, file.type);
+  const detectedDialect = importer.delimited
+    ? sniffDelimitedText(detectedText, detectedEncoding)
+    : { ...DEFAULT_IMPORT_DIALECT, encoding: detectedEncoding };
+  const dialect = override ?? detectedDialect;
+
+  const { headers, rows } = await importer.preview({ file, text, isWholeFile, dialect });
+  return { importerId: importer.id, dialect, detectedDialect, headers, rows };
+};
+
+/**
+ * Streams a file through a Web Worker, reporting mapped rows (tagged with
+ * `sourceId`) batch by batch. Returns a function that cancels the import;
+ * batches already delivered are kept by the caller.
+ */
+export const ingestFile = (settings: Omit<IngestRequest, 'type'>, handlers: IngestHandlers) => {
+  const worker = new Worker(new URL('./ingest.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.addEventListener('message', (event: MessageEvent<IngestMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'batch':
+        handlers.onBatch(message.rows, message.rejected, message.totalBytes > 0 ? message.bytesRead / message.totalBytes : 1);
+        break;
+      case 'done':
+        worker.terminate();
+        handlers.onDone(message.rowCount, message.skippedCount);
+        break;
+      case 'error':
+        worker.terminate();
+        handlers.onError(message.message);
+        break;
+    }
+  });
+  worker.addEventListener('error', (event) => {
+    worker.terminate();
+    handlers.onError(event.message || 'The import worker failed.');
+  });
+
+  const request: IngestRequest = { type: 'start', ...settings };
+  worker.postMessage(request);
+
+  return () => worker.terminate();
+};
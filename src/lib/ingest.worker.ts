@@ -0,0 +1,56 @@
+import { getImporter, type ReadResult } from './importers';
+import { createImportFilter, hasImportFilters } from './import-filters';
+import type { IngestMessage, IngestRequest } from './ingest';
+
+const CHUNK_BYTES = 4 * 1024 * 1024;
+
+const post = (message: IngestMessage) => self.postMessage(message);
+
+const ingest = async (request: IngestRequest) => {
+  const { file, dialect, config, filters, timestampOptions, sourceId } = request;
+  const reader = getImporter(request.importerId).createReader(config, dialect, sourceId);
+  const keepRow = hasImportFilters(filters) ? createImportFilter(filters, timestampOptions) : null;
+  const decoder = new TextDecoder(dialect.encoding);
+  let rowCount = 0;
+  let skippedCount = 0;
+
+  const applyFilters = ({ rows, rejected }: ReadResult): ReadResult => {
+    if (!keepRow) return { rows, rejected };
+    const kept = rows.filter(keepRow);
+    skippedCount += rows.length - kept.length;
+    return { rows: kept, rejected };
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const buffer = await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+    const { rows, rejected } = applyFilters(reader.push(decoder.decode(buffer, { stream: true })));
+    rowCount += rows.length;
+    post({
+      type: 'batch',
+      rows,
+      rejected,
+      bytesRead: Math.min(offset + CHUNK_BYTES, file.size),
+      totalBytes: file.size,
+    });
+  }
+
+  const flushed = applyFilters(reader.push(decoder.decode()));
+  const tail = applyFilters(reader.end());
+  const rows = flushed.rows.concat(tail.rows);
+  rowCount += rows.length;
+  post({
+    type: 'batch',
+    rows,
+    rejected: flushed.rejected.concat(tail.rejected),
+    bytesRead: file.size,
+    totalBytes: file.size,
+  });
+  post({ type: 'done', rowCount, skippedCount });
+};
+
+self.addEventListener('message', (event: MessageEvent<IngestRequest>) => {
+  if (event.data.type !== 'start') return;
+  ingest(event.data).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+});
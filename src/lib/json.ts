@@ -0,0 +1,275 @@
+import type { CsvRecord } from './csv';
+import type { ColumnMapping } from './column-mapping';
+import type { ImportDiagnostic } from './diagnostics';
+import type { AttributeValue, MetricData } from './metric-data';
+
+export interface JsonRecord {
+  value: unknown;
+  /** 1-based line number on which the object starts. */
+  line: number;
+}
+
+export class JsonParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} at line ${line}`);
+    this.name = 'JsonParseError';
+    this.line = line;
+  }
+}
+
+const parseElement = (text: string, line: number): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new JsonParseError(error instanceof Error ? error.message : 'Invalid JSON', line);
+  }
+};
+
+/** Incremental reader for newline-delimited JSON; blank lines are skipped. */
+export class NdjsonTokenizer {
+  private buffer = '';
+  private line = 1;
+
+  push(chunk: string): JsonRecord[] {
+    const records: JsonRecord[] = [];
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      this.readLine(this.buffer.slice(0, newline), records);
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf('\n');
+    }
+    return records;
+  }
+
+  end(): JsonRecord[] {
+    const records: JsonRecord[] = [];
+    this.readLine(this.buffer, records);
+    this.buffer = '';
+    return records;
+  }
+
+  private readLine(text: string, records: JsonRecord[]) {
+    const trimmed = text.replace(/^\uFEFF/, '').trim();
+    if (trimmed) {
+      records.push({ value: parseElement(trimmed, this.line), line: this.line });
+    }
+    this.line++;
+  }
+}
+
+/**
+ * Incremental reader for a top-level JSON array (or a single top-level
+ * object, treated as a one-element array). Elements are split out by
+ * tracking bracket depth outside of strings, so only one element is ever
+ * held in memory. With `allowUnterminated`, an array may end without its
+ * closing bracket, as the Trace Event Format permits.
+ */
+export class JsonArrayTokenizer {
+  private readonly allowUnterminated: boolean;
+  private started = false;
+  private finished = false;
+  private isSingleObject = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private element = '';
+  private elementLine = 0;
+  private line = 1;
+
+  constructor({ allowUnterminated = false } = {}) {
+    this.allowUnterminated = allowUnterminated;
+  }
+
+  push(chunk: string): JsonRecord[] {
+    const records: JsonRecord[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+      if (ch === '\n') this.line++;
+
+      if (!this.started) {
+        if (ch === '[') {
+          this.started = true;
+        } else if (ch === '{') {
+          this.started = true;
+          this.isSingleObject = true;
+          this.beginElement(ch);
+          this.depth = 1;
+        } else if (!/\s|\uFEFF/.test(ch)) {
+          throw new JsonParseError('Expected a JSON array or object', this.line);
+        }
+        continue;
+      }
+
+      if (this.finished) {
+        if (!/\s/.test(ch)) throw new JsonParseError('Unexpected content after the end of the JSON document', this.line);
+        continue;
+      }
+
+      if (this.inString) {
+        this.element += ch;
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+
+      if (this.depth === 0) {
+        // Between or inside scalar array elements.
+        if (ch === ']') {
+          this.flushElement(records);
+          this.finished = true;
+        } else if (ch === ',') {
+          if (!this.element.trim()) throw new JsonParseError('Unexpected comma', this.line);
+          this.flushElement(records);
+        } else if (!/\s/.test(ch)) {
+          if (this.element.trim() && (ch === '{' || ch === '[' || ch === '"')) {
+            throw new JsonParseError('Missing comma between array elements', this.line);
+          }
+          if (!this.element) this.elementLine = this.line;
+          this.element += ch;
+          if (ch === '{' || ch === '[') this.depth++;
+          else if (ch === '"') this.inString = true;
+        }
+        continue;
+      }
+
+      this.element += ch;
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{' || ch === '[') {
+        this.depth++;
+      } else if (ch === '}' || ch === ']') {
+        this.depth--;
+        if (this.depth === 0 && this.isSingleObject) {
+          this.flushElement(records);
+          this.finished = true;
+        }
+      }
+    }
+
+    return records;
+  }
+
+  end(): JsonRecord[] {
+    if (!this.finished && this.allowUnterminated && this.started && !this.isSingleObject && this.depth === 0 && !this.inString) {
+      const records: JsonRecord[] = [];
+      this.flushElement(records);
+      this.finished = true;
+      return records;
+    }
+    if (!this.finished) {
+      throw new JsonParseError(this.started ? 'Unexpected end of JSON input' : 'The file contains no JSON data', this.line);
+    }
+    return [];
+  }
+
+  private beginElement(ch: string) {
+    this.element = ch;
+    this.elementLine = this.line;
+  }
+
+  private flushElement(records: JsonRecord[]) {
+    const text = this.element.trim();
+    this.element = '';
+    if (text) {
+      records.push({ value: parseElement(text, this.elementLine), line: this.elementLine });
+    }
+  }
+}
+
+/**
+ * Whether text that starts with an object holds one complete object on its
+ * first line, i.e. is newline-delimited rather than one pretty-printed document.
+ */
+export const isLineDelimitedJson = (content: string) => {
+  try {
+    JSON.parse(content.replace(/^\uFEFF/, '').trimStart().split('\n')[0]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Resolves a dotted path such as `event.metric.id`. Keys that themselves
+ * contain dots (`"metric.id": ...`) are matched before descending.
+ */
+export const getFieldPath = (value: unknown, path: string): unknown => {
+  if (!isObject(value)) return undefined;
+  if (path in value) return value[path];
+  const parts = path.split('.');
+  for (let i = parts.length - 1; i > 0; i--) {
+    const key = parts.slice(0, i).join('.');
+    if (key in value) {
+      const resolved = getFieldPath(value[key], parts.slice(i).join('.'));
+      if (resolved !== undefined) return resolved;
+    }
+  }
+  return undefined;
+};
+
+/** Visits every leaf of an object with its dotted path; arrays count as leaves. */
+const forEachLeaf = (value: unknown, visit: (path: string, leaf: unknown) => void, prefix = '') => {
+  if (isObject(value)) {
+    Object.entries(value).forEach(([key, child]) => forEachLeaf(child, visit, prefix ? `${prefix}.${key}` : key));
+  } else if (prefix) {
+    visit(prefix, value);
+  }
+};
+
+/** Lists the dotted paths of every scalar leaf found in the sampled objects. */
+export const collectFieldPaths = (records: JsonRecord[]): string[] => {
+  const paths = new Set<string>();
+  records.forEach(record => forEachLeaf(record.value, (path, leaf) => {
+    if (!Array.isArray(leaf)) paths.add(path);
+  }));
+  return Array.from(paths);
+};
+
+const stringifyField = (value: unknown) =>
+  value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/** Flattens sampled objects into rows keyed by field path, for the mapping preview. */
+export const toFieldRecords = (paths: string[], records: JsonRecord[]): CsvRecord[] =>
+  records.map(record => ({
+    fields: paths.map(path => stringifyField(getFieldPath(record.value, path))),
+    line: record.line,
+  }));
+
+/**
+ * Returns a converter from parsed JSON objects to MetricData using field
+ * paths. Every other leaf is kept as an attribute with its JSON type.
+ */
+export const createFieldPathMapper = (mapping: ColumnMapping, source: string) =>
+  (record: JsonRecord): MetricData | ImportDiagnostic => {
+    const metricId = stringifyField(getFieldPath(record.value, mapping.metricIdColumn)).trim();
+    const timestamp = stringifyField(getFieldPath(record.value, mapping.timestampColumn)).trim();
+    if (!metricId || !timestamp) {
+      return {
+        source,
+        line: record.line,
+        raw: JSON.stringify(record.value),
+        reason: 'missing-field',
+        detail: `'${metricId ? mapping.timestampColumn : mapping.metricIdColumn}' is missing or empty.`,
+      };
+    }
+    const attributes: Record<string, AttributeValue> = {};
+    forEachLeaf(record.value, (path, leaf) => {
+      if (path === mapping.metricIdColumn || path === mapping.timestampColumn || leaf === null || leaf === '') return;
+      attributes[path] = typeof leaf === 'object' ? JSON.stringify(leaf) : (leaf as AttributeValue);
+    });
+    return {
+      METRICID: metricId,
+      TIMESTAMP: timestamp,
+      SOURCE: source,
+      LINE: record.line,
+      ATTRIBUTES: attributes,
+    };
+  };
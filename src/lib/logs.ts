@@ -0,0 +1,177 @@
+import type { CsvRecord } from './csv';
+import type { DiagnosticReason, ImportDiagnostic } from './diagnostics';
+import { inferAttributeValue } from './attributes';
+import type { AttributeValue, MetricData } from './metric-data';
+
+export interface LogLine {
+  text: string;
+  /** 1-based line number in the file. */
+  line: number;
+}
+
+/** A named, reusable log pattern. */
+export interface LogProfile {
+  name: string;
+  pattern: string;
+}
+
+export class LogPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LogPatternError';
+  }
+}
+
+const STORAGE_KEY = 'metric-graph:log-profiles';
+
+export const DEFAULT_LOG_PATTERN = String.raw`^(?<ts>\S+ \S+) \[(?<level>\w+)\] (?<id>\S+)`;
+
+/** Incremental line splitter; accepts CRLF, LF and CR line endings and skips blank lines and a leading BOM. */
+export class LineTokenizer {
+  private current = '';
+  private line = 1;
+  private afterCarriageReturn = false;
+  private atStart = true;
+
+  push(chunk: string): LogLine[] {
+    const lines: LogLine[] = [];
+    let segmentStart = 0;
+
+    if (this.atStart && chunk) {
+      this.atStart = false;
+      if (chunk[0] === '\uFEFF') segmentStart = 1;
+    }
+
+    for (let i = segmentStart; i < chunk.length; i++) {
+      const ch = chunk[i];
+      // The LF of a CRLF pair belongs to the line break already counted at the CR.
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (ch === '\n') {
+          segmentStart = i + 1;
+          continue;
+        }
+      }
+      if (ch === '\n' || ch === '\r') {
+        this.endLine(this.current + chunk.slice(segmentStart, i), lines);
+        this.current = '';
+        segmentStart = i + 1;
+        this.afterCarriageReturn = ch === '\r';
+      }
+    }
+
+    this.current += chunk.slice(segmentStart);
+    return lines;
+  }
+
+  end(): LogLine[] {
+    const lines: LogLine[] = [];
+    this.endLine(this.current, lines);
+    this.current = '';
+    return lines;
+  }
+
+  private endLine(text: string, lines: LogLine[]) {
+    if (text.trim()) lines.push({ text, line: this.line });
+    this.line++;
+  }
+}
+
+/**
+ * Compiles a user-supplied pattern. It must contain the named groups `id` and
+ * `ts`; every other named group becomes an attribute.
+ */
+export const compileLogPattern = (pattern: string): RegExp => {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    throw new LogPatternError(error instanceof Error ? error.message : 'Invalid regular expression.');
+  }
+  const groups = logPatternGroups(pattern);
+  const missing = ['id', 'ts'].filter(group => !groups.includes(group));
+  if (missing.length > 0) {
+    throw new LogPatternError(`The pattern needs named groups ${missing.map(group => `(?<${group}>…)`).join(' and ')}.`);
+  }
+  return regex;
+};
+
+/** Names of the named groups in a pattern, in order of appearance. */
+export const logPatternGroups = (pattern: string) =>
+  Array.from(pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g), match => match[1]);
+
+export type LogMatch = { groups: Record<string, string> } | null;
+
+export const matchLogLine = (regex: RegExp, text: string): LogMatch => {
+  const match = regex.exec(text);
+  if (!match) return null;
+  const groups: Record<string, string> = {};
+  Object.entries(match.groups ?? {}).forEach(([name, value]) => {
+    if (value !== undefined) groups[name] = value;
+  });
+  return { groups };
+};
+
+/**
+ * Returns a converter from log lines to rows tagged with `source`. Lines the
+ * pattern does not match come back as diagnostics, as do matches whose `id`
+ * or `ts` group is empty.
+ */
+export const createLogLineMapper = (pattern: string, source: string) => {
+  const regex = compileLogPattern(pattern);
+
+  return (line: LogLine): MetricData | ImportDiagnostic => {
+    const reject = (reason: DiagnosticReason, detail: string): ImportDiagnostic => ({
+      source,
+      line: line.line,
+      raw: line.text,
+      reason,
+      detail,
+    });
+
+    const match = matchLogLine(regex, line.text);
+    if (!match) return reject('unmatched-line', 'The line does not match the log pattern.');
+    const { id, ts, ...rest } = match.groups;
+    if (!id?.trim() || !ts?.trim()) {
+      return reject('missing-field', `Group '${id?.trim() ? 'ts' : 'id'}' is empty.`);
+    }
+    const attributes: Record<string, AttributeValue> = {};
+    Object.entries(rest).forEach(([name, value]) => {
+      if (value.trim()) attributes[name] = inferAttributeValue(value.trim());
+    });
+    return {
+      METRICID: id.trim(),
+      TIMESTAMP: ts.trim(),
+      SOURCE: source,
+      LINE: line.line,
+      ATTRIBUTES: attributes,
+    };
+  };
+};
+
+/** Preview rows for a log file carry the raw line as their only field. */
+export const toLineRecords = (lines: LogLine[]): CsvRecord[] =>
+  lines.map(({ text, line }) => ({ fields: [text], line }));
+
+export const loadLogProfiles = (): LogProfile[] => {
+  try {
+    const profiles = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(profiles) ? profiles : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Saves a profile, replacing any existing profile with the same name. */
+export const saveLogProfile = (profile: LogProfile) => {
+  const profiles = loadLogProfiles().filter(existing => existing.name !== profile.name);
+  profiles.push(profile);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteLogProfile = (name: string) => {
+  const profiles = loadLogProfiles().filter(profile => profile.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
@@ -0,0 +1,24 @@
+export type AttributeValue = string | number | boolean;
+
+export interface MetricData {
+  METRICID: string;
+  TIMESTAMP: string;
+  /** ID of the DataSource the row was loaded from. */
+  SOURCE: string;
+  /** Line in the source file on which the row starts. */
+  LINE: number;
+  /** Every other column (or JSON field path) of the row, keyed by header. */
+  ATTRIBUTES: Record<string, AttributeValue>;
+}
+
+export interface DataSource {
+  id: string;
+  /** Display name, usually the uploaded file name. */
+  name: string;
+  visible: boolean;
+  rowCount: number;
+  /** Attribute keys seen in the rows loaded so far, in first-seen order. */
+  attributeKeys: string[];
+  /** Milliseconds added to every timestamp of the source, correcting its host's clock skew. */
+  offsetMs: number;
+}
@@ -0,0 +1,195 @@
+import type { CsvRecord } from './csv';
+import type { JsonRecord } from './json';
+import type { ImportDiagnostic } from './diagnostics';
+import { formatAttributeValue, inferAttributeValue } from './attributes';
+import type { AttributeValue, MetricData } from './metric-data';
+
+export const TRACE_ID_ATTRIBUTE = 'trace.id';
+export const SPAN_ID_ATTRIBUTE = 'span.id';
+export const PARENT_SPAN_ID_ATTRIBUTE = 'parent.span.id';
+export const SPAN_NAME_ATTRIBUTE = 'span.name';
+export const SPAN_EVENT_ATTRIBUTE = 'span.event';
+
+export interface SpanImportOptions {
+  /** Attribute whose value becomes the metric ID; `null` keys events by span name. */
+  keyAttribute: string | null;
+}
+
+export const DEFAULT_SPAN_IMPORT_OPTIONS: SpanImportOptions = { keyAttribute: null };
+
+/** A span with its start and end as raw nanosecond strings and every attribute flattened. */
+export interface FlatSpan {
+  name: string;
+  start: string;
+  end: string;
+  attributes: Record<string, AttributeValue>;
+  /** The span object as it appeared in the document, for diagnostics. */
+  original: unknown;
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  bytesValue?: string;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+}
+
+interface OtlpSpan {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  name?: string;
+  kind?: number | string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+  status?: { code?: number | string; message?: string };
+}
+
+interface OtlpScopeSpans {
+  scope?: { name?: string };
+  instrumentationLibrary?: { name?: string };
+  spans?: OtlpSpan[];
+}
+
+interface OtlpResourceSpans {
+  resource?: { attributes?: OtlpKeyValue[] };
+  scopeSpans?: OtlpScopeSpans[];
+  // Name used by exporters before OTLP 0.15.
+  instrumentationLibrarySpans?: OtlpScopeSpans[];
+}
+
+const SPAN_KINDS = ['unspecified', 'internal', 'server', 'client', 'producer', 'consumer'];
+const STATUS_CODES = ['unset', 'ok', 'error'];
+
+/** Marks the head of a JSON document as an OTLP trace export. */
+export const looksLikeOtlpTraces = (head: string) => /^\s*\{\s*"resourceSpans"\s*:/.test(head);
+
+const toAttributeValue = (value: OtlpAnyValue | undefined): AttributeValue | undefined => {
+  if (!value) return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  // int64 values are JSON strings; large ones stay text like numeric IDs elsewhere.
+  if (value.intValue !== undefined) return inferAttributeValue(String(value.intValue));
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.bytesValue !== undefined) return value.bytesValue;
+  if (value.arrayValue) return JSON.stringify((value.arrayValue.values ?? []).map(toAttributeValue));
+  if (value.kvlistValue) return JSON.stringify(flattenAttributes(value.kvlistValue.values));
+  return undefined;
+};
+
+const flattenAttributes = (attributes: OtlpKeyValue[] | undefined) => {
+  const flat: Record<string, AttributeValue> = {};
+  (attributes ?? []).forEach(({ key, value }) => {
+    const converted = toAttributeValue(value);
+    if (converted !== undefined && converted !== '') flat[key] = converted;
+  });
+  return flat;
+};
+
+const enumName = (names: string[], value: number | string | undefined, prefix: string) => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') return names[value] ?? String(value);
+  return value.replace(prefix, '').toLowerCase();
+};
+
+/**
+ * Walks an OTLP/JSON trace export (resourceSpans → scopeSpans → spans) and
+ * flattens every span. Trace, span and parent span IDs, kind, status, scope
+ * and resource attributes all end up in `attributes`.
+ */
+export const flattenOtlpSpans = (document: unknown): FlatSpan[] => {
+  const spans: FlatSpan[] = [];
+  const resourceSpans = (document as { resourceSpans?: OtlpResourceSpans[] } | null)?.resourceSpans;
+  if (!Array.isArray(resourceSpans)) return spans;
+
+  resourceSpans.forEach(resource => {
+    const resourceAttributes = flattenAttributes(resource.resource?.attributes);
+    (resource.scopeSpans ?? resource.instrumentationLibrarySpans ?? []).forEach(scope => {
+      const scopeName = scope.scope?.name ?? scope.instrumentationLibrary?.name;
+      (scope.spans ?? []).forEach(span => {
+        const start = span.startTimeUnixNano === undefined ? '' : String(span.startTimeUnixNano);
+        const end = span.endTimeUnixNano === undefined ? '' : String(span.endTimeUnixNano);
+        const attributes: Record<string, AttributeValue> = {
+          ...resourceAttributes,
+          ...flattenAttributes(span.attributes),
+        };
+        const set = (key: string, value: AttributeValue | undefined) => {
+          if (value !== undefined && value !== '') attributes[key] = value;
+        };
+        set(SPAN_NAME_ATTRIBUTE, span.name);
+        set(TRACE_ID_ATTRIBUTE, span.traceId);
+        set(SPAN_ID_ATTRIBUTE, span.spanId);
+        set(PARENT_SPAN_ID_ATTRIBUTE, span.parentSpanId);
+        set('span.kind', enumName(SPAN_KINDS, span.kind, 'SPAN_KIND_'));
+        set('span.status', enumName(STATUS_CODES, span.status?.code, 'STATUS_CODE_'));
+        set('span.status_message', span.status?.message);
+        set('otel.scope.name', scopeName);
+        // Nanosecond timestamps exceed 2^53, so the difference is taken exactly.
+        if (/^\d+$/.test(start) && /^\d+$/.test(end)) {
+          set('span.duration_ms', Number(BigInt(end) - BigInt(start)) / 1e6);
+        }
+        spans.push({ name: span.name ?? '', start, end, attributes, original: span });
+      });
+    });
+  });
+
+  return spans;
+};
+
+/** Lists the span attribute keys in first-seen order, for choosing a key attribute. */
+export const collectSpanAttributeKeys = (spans: FlatSpan[]) => {
+  const keys = new Set<string>();
+  spans.forEach(span => Object.keys(span.attributes).forEach(key => keys.add(key)));
+  return Array.from(keys);
+};
+
+/** Preview rows for the span import step: one per span, fields aligned to `keys`. */
+export const toSpanRecords = (keys: string[], spans: FlatSpan[], line: number): CsvRecord[] =>
+  spans.map(span => ({ fields: keys.map(key => formatAttributeValue(span.attributes[key])), line }));
+
+// Converted here rather than left to the timestamp settings, which may be set up for other sources.
+const nanosToTimestamp = (nanos: string) =>
+  /^\d+$/.test(nanos) ? new Date(Number(BigInt(nanos) / BigInt(1e6))).toISOString() : null;
+
+/**
+ * Returns a converter from OTLP documents to rows tagged with `source`. Each
+ * span becomes a start row and an end row sharing its attributes (plus
+ * `span.event`), so MetricGraph draws it as a dashed start line and a solid
+ * end line. Spans without both timestamps come back as diagnostics.
+ */
+export const createOtlpSpanMapper = (options: SpanImportOptions, source: string) =>
+  (record: JsonRecord): (MetricData | ImportDiagnostic)[] =>
+    flattenOtlpSpans(record.value).flatMap((span): (MetricData | ImportDiagnostic)[] => {
+      const keyValue = options.keyAttribute ? span.attributes[options.keyAttribute] : undefined;
+      const metricId = (keyValue !== undefined ? formatAttributeValue(keyValue) : span.name).trim();
+      const reject = (reason: ImportDiagnostic['reason'], detail: string): ImportDiagnostic[] => [{
+        source,
+        line: record.line,
+        raw: JSON.stringify(span.original),
+        reason,
+        detail,
+      }];
+      if (!metricId || !span.start || !span.end) {
+        return reject('missing-field', !metricId ? 'The span has no name.' : 'The span is missing its start or end time.');
+      }
+      const start = nanosToTimestamp(span.start);
+      const end = nanosToTimestamp(span.end);
+      if (!start || !end) return reject('invalid-timestamp', 'The span times are not Unix nanoseconds.');
+      const toRow = (timestamp: string, event: string): MetricData => ({
+        METRICID: metricId,
+        TIMESTAMP: timestamp,
+        SOURCE: source,
+        LINE: record.line,
+        ATTRIBUTES: { ...span.attributes, [SPAN_EVENT_ATTRIBUTE]: event },
+      });
+      return [toRow(start, 'start'), toRow(end, 'end')];
+    });
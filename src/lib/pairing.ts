@@ -0,0 +1,186 @@
+export type PairingMode = 'transform' | 'explicit';
+
+export const PAIRING_MODES: Record<PairingMode, string> = {
+  transform: 'Name transform',
+  explicit: 'Explicit mapping',
+};
+
+/** How expected metrics are matched to the actual metrics they should produce. */
+export interface PairingSettings {
+  enabled: boolean;
+  mode: PairingMode;
+  /** One pair per line, `expected -> actual`; used in 'explicit' mode. */
+  mapping: string;
+  /** Glob with one `*`, e.g. `expected.*`; the part it matches is substituted into `actualPattern`. */
+  expectedPattern: string;
+  /** Also holds exactly one `*`. */
+  actualPattern: string;
+  /** Largest |actual - expected| in milliseconds before a pair is flagged. */
+  toleranceMs: number;
+}
+
+export const DEFAULT_PAIRING_SETTINGS: PairingSettings = {
+  enabled: false,
+  mode: 'transform',
+  mapping: '',
+  expectedPattern: 'expected.*',
+  actualPattern: 'actual.*',
+  toleranceMs: 100,
+};
+
+/** Starts (and single events) are paired with starts, ends with ends. */
+export type PairedEventKind = 'start' | 'end';
+
+/** A drawn event as pairing sees it. */
+export interface PairingEvent {
+  metricId: string;
+  /** Name of the source the event was loaded from. */
+  source: string;
+  /** Value of the split-by attribute, when events are split by one. */
+  group?: string;
+  kind: PairedEventKind;
+  timestamp: Date;
+}
+
+export interface MetricPair {
+  expectedId: string;
+  actualId: string;
+  /** Events are only paired within one source and group. Empty when neither side is on the chart. */
+  source: string;
+  group?: string;
+  kind: PairedEventKind;
+  /** Which event of that kind is paired, counting from 0 in time order. */
+  occurrence: number;
+  /** The paired drawn event of each side; absent when that side has fewer events. */
+  expected?: Date;
+  actual?: Date;
+  /** actual - expected in milliseconds, when both sides are present. */
+  deltaMs: number | null;
+  exceedsTolerance: boolean;
+}
+
+/**
+ * Reads `expected -> actual` (or `=>`) lines, ignoring blank and malformed
+ * ones and repeats of a pair already listed.
+ */
+export const parsePairMapping = (input: string): [string, string][] => {
+  const seen = new Set<string>();
+  return input.split('\n').flatMap(line => {
+    const parts = line.split(/->|=>/).map(part => part.trim());
+    if (parts.length !== 2 || !parts[0] || !parts[1]) return [];
+    const key = `${parts[0]}\u0000${parts[1]}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [[parts[0], parts[1]] as [string, string]];
+  });
+};
+
+/** Whether a name pattern holds exactly one `*`, as both transform patterns must. */
+export const isNamePattern = (pattern: string) => pattern.split('*').length === 2;
+
+/**
+ * Builds the expected-to-actual name transform. Returns `null` for IDs the
+ * expected pattern does not match, or when either pattern does not hold
+ * exactly one `*`.
+ */
+export const createNameTransform = (expectedPattern: string, actualPattern: string) => {
+  if (!isNamePattern(expectedPattern) || !isNamePattern(actualPattern)) return () => null;
+  const parts = expectedPattern.split('*');
+  const [prefix, suffix] = parts;
+  return (metricId: string) => {
+    if (metricId.length < prefix.length + suffix.length) return null;
+    if (!metricId.startsWith(prefix) || !metricId.endsWith(suffix)) return null;
+    return actualPattern.replace('*', metricId.slice(prefix.length, metricId.length - suffix.length));
+  };
+};
+
+const findCandidates = (settings: PairingSettings, metricIds: string[]): [string, string][] => {
+  if (settings.mode === 'explicit') return parsePairMapping(settings.mapping);
+  const transform = createNameTransform(settings.expectedPattern, settings.actualPattern);
+  return metricIds.flatMap(metricId => {
+    const actualId = transform(metricId);
+    return actualId !== null && actualId !== metricId ? [[metricId, actualId] as [string, string]] : [];
+  });
+};
+
+interface Lane {
+  source: string;
+  group?: string;
+  events: Record<PairedEventKind, Date[]>;
+}
+
+const PAIRED_KINDS: PairedEventKind[] = ['start', 'end'];
+
+// Each metric's events by source and group, in the order given.
+const indexEvents = (events: PairingEvent[]) => {
+  const index = new Map<string, Map<string, Lane>>();
+  events.forEach(({ metricId, source, group, kind, timestamp }) => {
+    const lanes = index.get(metricId) ?? new Map<string, Lane>();
+    index.set(metricId, lanes);
+    const laneKey = `${source}\u0000${group ?? ''}`;
+    const lane = lanes.get(laneKey) ?? { source, group, events: { start: [], end: [] } };
+    lanes.set(laneKey, lane);
+    lane.events[kind].push(timestamp);
+  });
+  return index;
+};
+
+/**
+ * Pairs metrics by the settings, then pairs their drawn events: within each
+ * source and group, the nth start of the expected metric with the nth start
+ * of the actual one, and likewise for ends. Events left over on either side
+ * are listed without a partner. In transform mode only expected metrics on
+ * the chart are considered; explicit pairs are listed even when neither side
+ * is.
+ *
+ * `events` must be sorted by time.
+ */
+export const pairMetrics = (settings: PairingSettings, events: PairingEvent[]): MetricPair[] => {
+  const index = indexEvents(events);
+  return findCandidates(settings, Array.from(index.keys()))
+    .flatMap(([expectedId, actualId]) => {
+      const expectedLanes = index.get(expectedId) ?? new Map<string, Lane>();
+      const actualLanes = index.get(actualId) ?? new Map<string, Lane>();
+      const laneKeys = new Set([...expectedLanes.keys(), ...actualLanes.keys()]);
+      if (laneKeys.size === 0) {
+        return [{ expectedId, actualId, source: '', kind: 'start' as const, occurrence: 0, deltaMs: null, exceedsTolerance: false }];
+      }
+      return Array.from(laneKeys).flatMap(laneKey => {
+        const expectedLane = expectedLanes.get(laneKey);
+        const actualLane = actualLanes.get(laneKey);
+        const { source, group } = (expectedLane ?? actualLane) as Lane;
+        return PAIRED_KINDS.flatMap(kind => {
+          const expectedEvents = expectedLane?.events[kind] ?? [];
+          const actualEvents = actualLane?.events[kind] ?? [];
+          const count = Math.max(expectedEvents.length, actualEvents.length);
+          return Array.from({ length: count }, (_, occurrence): MetricPair => {
+            const expected = expectedEvents[occurrence];
+            const actual = actualEvents[occurrence];
+            const deltaMs = expected && actual ? actual.getTime() - expected.getTime() : null;
+            return {
+              expectedId,
+              actualId,
+              source,
+              group,
+              kind,
+              occurrence,
+              expected,
+              actual,
+              deltaMs,
+              exceedsTolerance: deltaMs !== null && Math.abs(deltaMs) > settings.toleranceMs,
+            };
+          });
+        });
+      });
+    })
+    .sort((a, b) =>
+      a.expectedId.localeCompare(b.expectedId)
+      || a.source.localeCompare(b.source)
+      || (a.group ?? '').localeCompare(b.group ?? '')
+      || PAIRED_KINDS.indexOf(a.kind) - PAIRED_KINDS.indexOf(b.kind)
+      || a.occurrence - b.occurrence);
+};
+
+/** Key unique to each pair of a `pairMetrics` result. */
+export const pairKey = (pair: MetricPair) =>
+  [pair.expectedId, pair.actualId, pair.source, pair.group ?? '', pair.kind, pair.occurrence].join('\u0000');
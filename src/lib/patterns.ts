@@ -0,0 +1,103 @@
+export class IdPatternError extends Error {
+  constructor(readonly pattern: string, message: string) {
+    super(message);
+    this.name = 'IdPatternError';
+  }
+}
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Splits a pattern list on newlines and commas. A line written as a regular
+ * expression (`/.../flags`) is kept whole, since it may contain commas itself.
+ */
+export const splitPatternList = (input: string) =>
+  input
+    .split('\n')
+    .flatMap(line => (REGEX_LITERAL.test(line.trim()) ? [line] : line.split(',')))
+    .map(pattern => pattern.trim())
+    .filter(Boolean);
+
+/** Whether the entry matches more than the one ID it spells out. */
+export const isWildcardPattern = (pattern: string) => REGEX_LITERAL.test(pattern) || /[*?]|\[[^\]]+\]/.test(pattern);
+
+/**
+ * Whether an entry outside slashes uses syntax that only means something in a
+ * regular expression (`+`, `(`, `|`, ...). As a glob that syntax is matched
+ * literally, so such an entry is most likely a regex missing its slashes.
+ */
+export const looksLikeUnwrappedRegex = (pattern: string) =>
+  !REGEX_LITERAL.test(pattern) && /[+(){}|^$\\]/.test(pattern);
+
+// `g` and `y` would make `test` stateful across IDs, so only these are accepted.
+const REGEX_FLAGS = /^[imsu]*$/;
+
+/**
+ * Compiles one entry of a pattern list: `/.../flags` is a regular expression
+ * matched anywhere in the ID, anything else a glob over the whole ID where `*`
+ * matches any run of characters, `?` a single one and `[...]` (or `[!...]`)
+ * one character of a set.
+ */
+export const compileIdPattern = (pattern: string): RegExp => {
+  const literal = REGEX_LITERAL.exec(pattern);
+  if (literal && !REGEX_FLAGS.test(literal[2])) {
+    throw new IdPatternError(pattern, `Unsupported flags "${literal[2]}"; only i, m, s and u are allowed.`);
+  }
+  const source = literal ? literal[1] : `^${pattern.replace(/\[!?[^\]]+\]|[*?]|[.+^${}()|[\]\\]/g, token => {
+    if (token === '*') return '.*';
+    if (token === '?') return '.';
+    if (token.length > 1) return token.startsWith('[!') ? `[^${token.slice(2)}` : token;
+    return `\\${token}`;
+  })}$`;
+  try {
+    return new RegExp(source, literal ? literal[2] : '');
+  } catch (error) {
+    throw new IdPatternError(pattern, error instanceof Error ? error.message : String(error));
+  }
+};
+
+/** Returns the entries of a pattern list that do not compile, with the reason. */
+export const findInvalidPatterns = (patterns: string[]) =>
+  patterns.flatMap(pattern => {
+    try {
+      compileIdPattern(pattern);
+      return [];
+    } catch (error) {
+      return error instanceof IdPatternError ? [error] : [];
+    }
+  });
+
+/** The entries of a pattern list that compile; editors point out the others. */
+export const dropInvalidPatterns = (patterns: string[]) => {
+  const invalid = new Set(findInvalidPatterns(patterns).map(error => error.pattern));
+  return patterns.filter(pattern => !invalid.has(pattern));
+};
+
+/** Compiles a pattern list into a predicate that is true when any entry matches. */
+export const createIdMatcher = (patterns: string[]) => {
+  const exact = new Set(patterns.filter(pattern => !isWildcardPattern(pattern)));
+  const wildcards = patterns.filter(isWildcardPattern).map(compileIdPattern);
+  return (id: string) => exact.has(id) || wildcards.some(regex => regex.test(id));
+};
+
+/**
+ * Counts, for each valid entry of a pattern list, how many of `ids` it
+ * matches. Invalid entries are left out of the result.
+ */
+export const countPatternMatches = (patterns: string[], ids: string[]) => {
+  const counts = new Map<string, number>();
+  const idSet = new Set(ids);
+  patterns.forEach(pattern => {
+    if (!isWildcardPattern(pattern)) {
+      counts.set(pattern, idSet.has(pattern) ? 1 : 0);
+      return;
+    }
+    try {
+      const regex = compileIdPattern(pattern);
+      counts.set(pattern, ids.filter(id => regex.test(id)).length);
+    } catch {
+      // Reported by findInvalidPatterns.
+    }
+  });
+  return counts;
+};
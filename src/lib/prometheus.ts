@@ -0,0 +1,212 @@
+import type { CsvRecord } from './csv';
+import type { LogLine } from './logs';
+import type { ImportDiagnostic } from './diagnostics';
+import { inferAttributeValue } from './attributes';
+import type { AttributeValue, MetricData } from './metric-data';
+
+/** Decides the timestamp unit: milliseconds in the Prometheus text format, (fractional) seconds in OpenMetrics. */
+export type PrometheusFormat = 'prometheus' | 'openmetrics';
+
+export const PROMETHEUS_FORMATS: Record<PrometheusFormat, string> = {
+  prometheus: 'Prometheus text (milliseconds)',
+  openmetrics: 'OpenMetrics (seconds)',
+};
+
+export interface PrometheusImportOptions {
+  /** Labels that become part of the metric ID next to the metric name; the rest are attributes only. */
+  keyLabels: string[];
+  format: PrometheusFormat;
+}
+
+export const DEFAULT_PROMETHEUS_IMPORT_OPTIONS: PrometheusImportOptions = { keyLabels: [], format: 'prometheus' };
+
+export interface PrometheusSample {
+  name: string;
+  labels: Record<string, string>;
+  value: string;
+  /** Raw timestamp: milliseconds in the Prometheus format, seconds in OpenMetrics. */
+  timestamp: string;
+}
+
+export class PrometheusParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrometheusParseError';
+  }
+}
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+const ESCAPES: Record<string, string> = { '\\': '\\', '"': '"', n: '\n' };
+// Suffixes of histogram and summary series, used to find their family's # TYPE.
+const FAMILY_SUFFIXES = ['_bucket', '_sum', '_count', '_total', '_created', '_gsum', '_gcount'];
+
+/** Marks the head of a file as Prometheus or OpenMetrics text exposition. */
+export const looksLikePrometheusText = (head: string) => /^\s*# (HELP|TYPE) [a-zA-Z_:]/.test(head);
+
+const parseLabels = (text: string): { labels: Record<string, string>; rest: string } => {
+  const labels: Record<string, string> = {};
+  let rest = text.slice(1).trimStart();
+  while (!rest.startsWith('}')) {
+    const name = LABEL_NAME_PATTERN.exec(rest)?.[0];
+    if (!name) throw new PrometheusParseError('Expected a label name');
+    rest = rest.slice(name.length).trimStart();
+    if (!rest.startsWith('="')) throw new PrometheusParseError(`Expected ="…" after label '${name}'`);
+
+    let value = '';
+    let i = 2;
+    for (; i < rest.length && rest[i] !== '"'; i++) {
+      if (rest[i] === '\\' && i + 1 < rest.length) {
+        value += ESCAPES[rest[i + 1]] ?? rest[i + 1];
+        i++;
+      } else {
+        value += rest[i];
+      }
+    }
+    if (i >= rest.length) throw new PrometheusParseError(`Unterminated value for label '${name}'`);
+    labels[name] = value;
+    rest = rest.slice(i + 1).trimStart();
+    if (rest.startsWith(',')) rest = rest.slice(1).trimStart();
+    else if (!rest.startsWith('}')) throw new PrometheusParseError('Expected , or } after a label');
+  }
+  return { labels, rest: rest.slice(1) };
+};
+
+/**
+ * Parses one sample line (`name{label="value"} value [timestamp]`). Returns
+ * `null` for blank and comment lines; throws `PrometheusParseError` for
+ * anything else it cannot read.
+ */
+export const parsePrometheusLine = (text: string): PrometheusSample | null => {
+  const line = text.trim();
+  if (!line || line.startsWith('#')) return null;
+
+  const name = NAME_PATTERN.exec(line)?.[0];
+  if (!name) throw new PrometheusParseError('Expected a metric name');
+  let rest = line.slice(name.length);
+  let labels: Record<string, string> = {};
+  if (rest.trimStart().startsWith('{')) {
+    ({ labels, rest } = parseLabels(rest.trimStart()));
+  }
+
+  // Exemplars (after " # ") are not imported.
+  const [value, timestamp = '', extra] = rest.split(' # ')[0].trim().split(/\s+/);
+  if (!value) throw new PrometheusParseError('Expected a sample value');
+  if (extra !== undefined) throw new PrometheusParseError('Unexpected content after the timestamp');
+  return { name, labels, value, timestamp };
+};
+
+/** Builds the metric ID in selector syntax, e.g. `http_requests_total{method="post"}`. */
+export const formatSeriesId = (sample: PrometheusSample, keyLabels: string[]) => {
+  const selected = keyLabels
+    .filter(label => sample.labels[label] !== undefined)
+    .map(label => `${label}="${sample.labels[label]}"`);
+  return selected.length > 0 ? `${sample.name}{${selected.join(',')}}` : sample.name;
+};
+
+/** Preview columns: metric name, value, timestamp, then one column per label name. */
+export const toSampleRecords = (lines: LogLine[]): { headers: string[]; rows: CsvRecord[] } => {
+  const samples: { sample: PrometheusSample; line: number }[] = [];
+  lines.forEach(({ text, line }) => {
+    try {
+      const sample = parsePrometheusLine(text);
+      if (sample) samples.push({ sample, line });
+    } catch {
+      // Malformed lines are reported during the import itself.
+    }
+  });
+  const labelNames = Array.from(new Set(samples.flatMap(({ sample }) => Object.keys(sample.labels))));
+  return {
+    headers: ['__name__', '__value__', '__timestamp__', ...labelNames],
+    rows: samples.map(({ sample, line }) => ({
+      fields: [sample.name, sample.value, sample.timestamp, ...labelNames.map(label => sample.labels[label] ?? '')],
+      line,
+    })),
+  };
+};
+
+/**
+ * Guesses the format from sample timestamps: fractional ones, or integers
+ * too short to be milliseconds since 1973, are OpenMetrics seconds.
+ */
+export const detectPrometheusFormat = (samples: PrometheusSample[]): PrometheusFormat => {
+  const timestamp = samples.find(sample => sample.timestamp)?.timestamp;
+  if (!timestamp) return 'prometheus';
+  return /[.eE]/.test(timestamp) || timestamp.replace(/^-/, '').length <= 11 ? 'openmetrics' : 'prometheus';
+};
+
+// Converted here rather than left to the timestamp settings, which may be set up for other sources.
+const toIsoTimestamp = (timestamp: string, format: PrometheusFormat) => {
+  const value = Number(timestamp);
+  const date = new Date(format === 'openmetrics' ? value * 1000 : value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/** Rebuilds a sample from a preview record produced by `toSampleRecords`. */
+export const sampleFromRecord = (headers: string[], record: CsvRecord): PrometheusSample => {
+  const labels: Record<string, string> = {};
+  headers.slice(3).forEach((label, index) => {
+    if (record.fields[index + 3]) labels[label] = record.fields[index + 3];
+  });
+  return { name: record.fields[0], value: record.fields[1], timestamp: record.fields[2], labels };
+};
+
+/**
+ * Returns a converter from exposition lines to rows tagged with `source`.
+ * Each sample becomes one event of its series, keyed by metric name plus
+ * `keyLabels`; the sample value, every label and the family type (from
+ * `# TYPE`) are kept as attributes. Timestamps are read in the unit of
+ * `options.format`. Samples without a readable timestamp cannot be placed on
+ * the timeline and come back as diagnostics.
+ */
+export const createPrometheusLineMapper = (options: PrometheusImportOptions, source: string) => {
+  const familyTypes = new Map<string, string>();
+
+  const familyType = (name: string) => {
+    if (familyTypes.has(name)) return familyTypes.get(name);
+    const suffix = FAMILY_SUFFIXES.find(candidate => name.endsWith(candidate));
+    return suffix ? familyTypes.get(name.slice(0, -suffix.length)) : undefined;
+  };
+
+  return (line: LogLine): MetricData | ImportDiagnostic | null => {
+    const typeMatch = /^#\s*TYPE\s+(\S+)\s+(\S+)/.exec(line.text.trim());
+    if (typeMatch) {
+      familyTypes.set(typeMatch[1], typeMatch[2]);
+      return null;
+    }
+
+    const reject = (reason: ImportDiagnostic['reason'], detail: string): ImportDiagnostic => ({
+      source,
+      line: line.line,
+      raw: line.text,
+      reason,
+      detail,
+    });
+
+    let sample: PrometheusSample | null;
+    try {
+      sample = parsePrometheusLine(line.text);
+    } catch (error) {
+      return reject('malformed-line', error instanceof Error ? error.message : String(error));
+    }
+    if (!sample) return null;
+    if (!sample.timestamp) return reject('missing-field', 'The sample has no timestamp.');
+    const timestamp = toIsoTimestamp(sample.timestamp, options.format);
+    if (!timestamp) return reject('invalid-timestamp', `'${sample.timestamp}' is not a valid timestamp.`);
+
+    const attributes: Record<string, AttributeValue> = {};
+    Object.entries(sample.labels).forEach(([label, value]) => {
+      if (value) attributes[label] = inferAttributeValue(value);
+    });
+    attributes.value = inferAttributeValue(sample.value);
+    const type = familyType(sample.name);
+    if (type) attributes.type = type;
+    return {
+      METRICID: formatSeriesId(sample, options.keyLabels),
+      TIMESTAMP: timestamp,
+      SOURCE: source,
+      LINE: line.line,
+      ATTRIBUTES: attributes,
+    };
+  };
+};
@@ -0,0 +1,142 @@
+import { CsvTokenizer, type CsvRecord } from './csv';
+import { createTimestampParser, DEFAULT_TIMESTAMP_OPTIONS } from './timestamps';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/** How the bytes of a file are read before tokenizing. */
+export interface ImportDialect {
+  encoding: TextEncoding;
+  /** Field delimiter; only used for delimited text. */
+  delimiter: string;
+  /** Whether the first delimited record names the columns. */
+  hasHeader: boolean;
+}
+
+export const DEFAULT_IMPORT_DIALECT: ImportDialect = {
+  encoding: 'utf-8',
+  delimiter: ',',
+  hasHeader: true,
+};
+
+export const DELIMITERS: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+export const TEXT_ENCODINGS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 (Latin)',
+};
+
+const SNIFF_RECORDS = 20;
+
+const parseAutoTimestamp = createTimestampParser(DEFAULT_TIMESTAMP_OPTIONS);
+
+/**
+ * Reads the encoding from a byte order mark, falling back to the zero-byte
+ * pattern of BOM-less UTF-16 and then to whether the bytes are valid UTF-8.
+ * Invalid UTF-8 is assumed to be a legacy Windows code page.
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte !== 0) return;
+    if (index % 2 === 0) evenZeros++;
+    else oddZeros++;
+  });
+  // ASCII text in UTF-16 has a zero in every other byte.
+  if (oddZeros > sample.length / 4 && evenZeros < oddZeros / 10) return 'utf-16le';
+  if (evenZeros > sample.length / 4 && oddZeros < evenZeros / 10) return 'utf-16be';
+
+  try {
+    // `stream` keeps a multi-byte character cut off by the sample end from failing.
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+const tokenizeSample = (text: string, delimiter: string): CsvRecord[] | null => {
+  // Drop the last line, which the sample may have cut in half.
+  const lines = text.split(/\r\n|\n|\r/);
+  const sample = lines.slice(0, Math.min(lines.length - 1, SNIFF_RECORDS * 2) || 1).join('\n');
+  try {
+    const tokenizer = new CsvTokenizer(delimiter);
+    return [...tokenizer.push(sample), ...tokenizer.end()].slice(0, SNIFF_RECORDS);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks the delimiter that splits the sample into the most consistent number
+ * of fields (more than one). Candidates that make the sample unparseable are
+ * ruled out; ties go to the earlier entry in `DELIMITERS`.
+ */
+export const sniffDelimiter = (text: string): string => {
+  let best = DEFAULT_IMPORT_DIALECT.delimiter;
+  let bestScore = 0;
+  Object.keys(DELIMITERS).forEach(delimiter => {
+    const records = tokenizeSample(text, delimiter);
+    if (!records || records.length === 0) return;
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.fields.length, (counts.get(record.fields.length) ?? 0) + 1));
+    const [fieldCount, occurrences] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (fieldCount < 2) return;
+    // Consistency dominates; the field count only breaks near-ties.
+    const score = (occurrences / records.length) * 100 + Math.min(fieldCount, 20);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const looksLikeData = (value: string) =>
+  value !== '' && (!isNaN(Number(value)) || (/\d/.test(value) && parseAutoTimestamp(value) !== null));
+
+/**
+ * A first record is a header when some column holds numbers or timestamps in
+ * the following records but text in the first one. Without such a column the
+ * first record is only treated as data if it looks like data itself.
+ */
+export const sniffHeader = (records: CsvRecord[]): boolean => {
+  if (records.length === 0) return true;
+  const [first, ...rest] = records.map(record => record.fields.map(field => field.trim()));
+  if (rest.length > 0) {
+    const headerColumn = first.some((value, index) => {
+      const column = rest.map(fields => fields[index] ?? '').filter(Boolean);
+      return !looksLikeData(value) && column.length > 0 && column.filter(looksLikeData).length / column.length >= 0.5;
+    });
+    if (headerColumn) return true;
+  }
+  return !first.some(looksLikeData);
+};
+
+/** Guesses delimiter and header row for text that is already decoded. */
+export const sniffDelimitedText = (text: string, encoding: TextEncoding): ImportDialect => {
+  const delimiter = sniffDelimiter(text);
+  return { encoding, delimiter, hasHeader: sniffHeader(tokenizeSample(text, delimiter) ?? []) };
+};
+
+/** Column names for files without a header row, matching the attribute fallback of `createRowMapper`. */
+export const syntheticHeaders = (count: number) => Array.from({ length: count }, (_, index) => `column_${index + 1}`);
+
+export const describeDialect = (dialect: ImportDialect, delimited: boolean) =>
+  [
+    TEXT_ENCODINGS[dialect.encoding],
+    delimited && `${DELIMITERS[dialect.delimiter] ?? `'${dialect.delimiter}'`}-delimited`,
+    delimited && (dialect.hasHeader ? 'header row' : 'no header row'),
+  ].filter(Boolean).join(', ');
@@ -0,0 +1,148 @@
+import { parse, parseISO } from 'date-fns';
+
+export type TimestampMode = 'auto' | 'epoch-s' | 'epoch-ms' | 'epoch-us' | 'epoch-ns' | 'pattern';
+
+export interface TimestampOptions {
+  mode: TimestampMode;
+  /** date-fns format pattern, used when `mode` is 'pattern'. */
+  pattern: string;
+  /** 'local', 'UTC' or an IANA zone applied to timestamps that carry no offset. */
+  timeZone: string;
+}
+
+export const DEFAULT_TIMESTAMP_OPTIONS: TimestampOptions = {
+  mode: 'auto',
+  pattern: '',
+  timeZone: 'local',
+};
+
+const EPOCH_DIVISORS: Record<string, number> = {
+  'epoch-s': 1 / 1000,
+  'epoch-ms': 1,
+  'epoch-us': 1000,
+  'epoch-ns': 1_000_000,
+};
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+// An offset only counts after a time part, so the day in 2024-01-31 is not read as one.
+const ISO_ZONE_PATTERN = /[T ]\S*(Z|[+-]\d{2}(:?\d{2})?)$/i;
+// date-fns tokens that parse an offset or zone; quoted literals are ignored.
+const PATTERN_ZONE_TOKENS = /[XxOz]/;
+
+/**
+ * Picks the epoch unit from the magnitude of the value: anything up to 1e11
+ * is seconds (until the year 5138), then milliseconds, microseconds and
+ * nanoseconds in steps of 1000.
+ */
+export const detectEpochDivisor = (value: number) => {
+  const magnitude = Math.abs(value);
+  if (magnitude < 1e11) return EPOCH_DIVISORS['epoch-s'];
+  if (magnitude < 1e14) return EPOCH_DIVISORS['epoch-ms'];
+  if (magnitude < 1e17) return EPOCH_DIVISORS['epoch-us'];
+  return EPOCH_DIVISORS['epoch-ns'];
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  if (timeZone === 'local') return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns a function that reinterprets a date's local wall-clock fields as
+ * wall-clock time in `timeZone`. Zone offsets are cached per hour, which
+ * keeps large imports from calling Intl for every row.
+ */
+const createZoneShifter = (timeZone: string) => {
+  if (timeZone === 'local') return (date: Date) => date;
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const offsetCache = new Map<number, number>();
+
+  const offsetAt = (instant: number) => {
+    const hour = Math.floor(instant / 3_600_000);
+    const cached = offsetCache.get(hour);
+    if (cached !== undefined) return cached;
+    const parts: Record<string, number> = {};
+    formatter.formatToParts(new Date(hour * 3_600_000)).forEach(part => {
+      parts[part.type] = Number(part.value);
+    });
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    const offset = asUtc - hour * 3_600_000;
+    offsetCache.set(hour, offset);
+    return offset;
+  };
+
+  return (date: Date) => {
+    const wallClock = Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getMilliseconds(),
+    );
+    // Second pass settles the offset for wall times next to a DST change.
+    const firstGuess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(firstGuess));
+  };
+};
+
+/**
+ * Compiles the options into a parser for raw TIMESTAMP values. The parser
+ * returns `null` for values it cannot interpret.
+ */
+export const createTimestampParser = (options: TimestampOptions) => {
+  const shiftZone = createZoneShifter(options.timeZone);
+  const referenceDate = new Date();
+  const patternHasZone = PATTERN_ZONE_TOKENS.test(options.pattern.replace(/'[^']*'/g, ''));
+
+  const parseEpoch = (value: string, divisor?: number) => {
+    if (!NUMERIC_PATTERN.test(value)) return null;
+    const numeric = Number(value);
+    return new Date(numeric / (divisor ?? detectEpochDivisor(numeric)));
+  };
+
+  // Invalid dates must not reach shiftZone: formatToParts throws on them.
+  const toZone = (date: Date) => (isNaN(date.getTime()) ? null : shiftZone(date));
+
+  const parseValue = (value: string): Date | null => {
+    switch (options.mode) {
+      case 'pattern': {
+        if (!options.pattern) return null;
+        const date = parse(value, options.pattern, referenceDate);
+        return patternHasZone ? date : toZone(date);
+      }
+      case 'auto':
+        // Bare digit strings of up to eight characters are left to ISO parsing (e.g. 20240131).
+        if (NUMERIC_PATTERN.test(value) && value.replace(/^-/, '').split('.')[0].length > 8) {
+          return parseEpoch(value);
+        }
+        break;
+      default:
+        return parseEpoch(value, EPOCH_DIVISORS[options.mode]);
+    }
+
+    const date = parseISO(value);
+    return ISO_ZONE_PATTERN.test(value) ? date : toZone(date);
+  };
+
+  return (value: string): Date | null => {
+    const date = parseValue(value.trim());
+    return date && !isNaN(date.getTime()) ? date : null;
+  };
+};
@@ -0,0 +1,157 @@
+import type { JsonRecord } from './json';
+import type { ImportDiagnostic } from './diagnostics';
+import type { AttributeValue, MetricData } from './metric-data';
+import { SPAN_EVENT_ATTRIBUTE, SPAN_ID_ATTRIBUTE } from './otlp';
+
+/** The subset of the Trace Event Format this importer reads. */
+interface TraceEvent {
+  name?: string;
+  cat?: string;
+  ph?: string;
+  /** Microseconds on the tracing clock. */
+  ts?: number;
+  /** Duration in microseconds, for complete ('X') events. */
+  dur?: number;
+  pid?: number | string;
+  tid?: number | string;
+  args?: Record<string, unknown>;
+}
+
+// A 'B' event waiting for its 'E'; its start row is only emitted once the slice closes.
+interface OpenSlice {
+  event: TraceEvent;
+  line: number;
+  spanId: string;
+  ts: number;
+  start: MetricData;
+}
+
+/**
+ * Marks the head of a document as Chrome trace-event JSON: either the object
+ * form with `traceEvents` or a bare array of events with a `ph` phase.
+ */
+export const looksLikeChromeTrace = (head: string) =>
+  /^\s*\{\s*"traceEvents"\s*:/.test(head) ||
+  (/^\s*\[\s*\{/.test(head) && /"ph"\s*:\s*"[A-Za-z]"/.test(head.slice(0, 4096)));
+
+// The tracing clock has no fixed epoch; timestamps are kept relative to 1970
+// so that traces from real epoch clocks (as Perfetto can emit) line up too.
+const toTimestamp = (microseconds: number) => new Date(microseconds / 1000).toISOString();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Returns a stateful converter from trace-event records (one event each) to
+ * rows tagged with `source`. 'B'/'E' pairs (matched per pid/tid stack) and
+ * 'X' complete events become start and end rows sharing a generated span ID;
+ * 'i'/'I' instant events become one row marked as an instant. Process and
+ * thread names from 'M' metadata events are attached to later events.
+ * `flushOpenSlices` reports the 'B' events never closed, once the input ends.
+ */
+export const createTraceEventMapper = (source: string) => {
+  const openSlices = new Map<string, OpenSlice[]>();
+  const processNames = new Map<string, string>();
+  const threadNames = new Map<string, string>();
+  let nextSpanId = 1;
+
+  const mapEvent = (event: TraceEvent, line: number): (MetricData | ImportDiagnostic)[] => {
+    const reject = (reason: ImportDiagnostic['reason'], detail: string): ImportDiagnostic[] => [{
+      source,
+      line,
+      raw: JSON.stringify(event),
+      reason,
+      detail,
+    }];
+
+    const pid = event.pid === undefined ? '' : String(event.pid);
+    const tid = event.tid === undefined ? '' : String(event.tid);
+    const threadKey = `${pid}:${tid}`;
+
+    if (event.ph === 'M') {
+      const name = isObject(event.args) && typeof event.args.name === 'string' ? event.args.name : undefined;
+      if (name && event.name === 'process_name') processNames.set(pid, name);
+      if (name && event.name === 'thread_name') threadNames.set(threadKey, name);
+      return [];
+    }
+    if (typeof event.ts !== 'number') {
+      return reject('missing-field', "The event has no numeric 'ts'.");
+    }
+
+    const attributes = (spanId: string, eventKind: string): Record<string, AttributeValue> => {
+      const result: Record<string, AttributeValue> = { [SPAN_ID_ATTRIBUTE]: spanId, [SPAN_EVENT_ATTRIBUTE]: eventKind };
+      if (pid) result.pid = event.pid as AttributeValue;
+      if (tid) result.tid = event.tid as AttributeValue;
+      if (processNames.has(pid)) result['process.name'] = processNames.get(pid) ?? '';
+      if (threadNames.has(threadKey)) result['thread.name'] = threadNames.get(threadKey) ?? '';
+      if (event.cat) result.cat = event.cat;
+      if (isObject(event.args)) {
+        Object.entries(event.args).forEach(([key, value]) => {
+          if (value === null || value === undefined || value === '') return;
+          result[`args.${key}`] = typeof value === 'object' ? JSON.stringify(value) : (value as AttributeValue);
+        });
+      }
+      return result;
+    };
+    const toRow = (name: string, ts: number, spanId: string, eventKind: string, durationUs?: number): MetricData => {
+      const row: MetricData = {
+        METRICID: name,
+        TIMESTAMP: toTimestamp(ts),
+        SOURCE: source,
+        LINE: line,
+        ATTRIBUTES: attributes(spanId, eventKind),
+      };
+      if (durationUs !== undefined) row.ATTRIBUTES['span.duration_ms'] = durationUs / 1000;
+      return row;
+    };
+    const newSpanId = () => `${threadKey}#${nextSpanId++}`;
+
+    switch (event.ph) {
+      case 'B': {
+        if (!event.name) return reject('missing-field', "The begin event has no 'name'.");
+        const spanId = newSpanId();
+        const slice = { event, line, spanId, ts: event.ts, start: toRow(event.name, event.ts, spanId, 'start') };
+        openSlices.set(threadKey, [...(openSlices.get(threadKey) ?? []), slice]);
+        return [];
+      }
+      case 'E': {
+        const stack = openSlices.get(threadKey) ?? [];
+        const slice = stack.pop();
+        if (!slice) return reject('unpaired-event', `No open 'B' event on pid ${pid}, tid ${tid}.`);
+        return [slice.start, toRow(slice.start.METRICID, event.ts, slice.spanId, 'end', event.ts - slice.ts)];
+      }
+      case 'X': {
+        if (!event.name) return reject('missing-field', "The complete event has no 'name'.");
+        const spanId = newSpanId();
+        const duration = typeof event.dur === 'number' ? event.dur : 0;
+        return [
+          toRow(event.name, event.ts, spanId, 'start', duration),
+          toRow(event.name, event.ts + duration, spanId, 'end', duration),
+        ];
+      }
+      case 'i':
+      case 'I':
+        if (!event.name) return reject('missing-field', "The instant event has no 'name'.");
+        return [toRow(event.name, event.ts, newSpanId(), 'instant')];
+      default:
+        return reject('unsupported-event', `Phase '${event.ph ?? ''}' is not imported.`);
+    }
+  };
+
+  const mapRecord = (record: JsonRecord): (MetricData | ImportDiagnostic)[] =>
+    isObject(record.value) ? mapEvent(record.value as TraceEvent, record.line) : [];
+
+  const flushOpenSlices = (): ImportDiagnostic[] => {
+    const unclosed = Array.from(openSlices.values()).flat();
+    openSlices.clear();
+    return unclosed.map(slice => ({
+      source,
+      line: slice.line,
+      raw: JSON.stringify(slice.event),
+      reason: 'unclosed-event',
+      detail: `'B' event '${slice.start.METRICID}' has no matching 'E' event.`,
+    }));
+  };
+
+  return { mapRecord, flushOpenSlices };
+};
@@ -0,0 +1,102 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is 22 bytes plus a comment of at most 65535 bytes.
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipEntry {
+  /** Full path of the entry inside the archive. */
+  path: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** Decompresses the entry into a File named after its base name. */
+  extract: () => Promise<File>;
+}
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const findEndRecord = async (file: File) => {
+  const searchStart = Math.max(0, file.size - MAX_END_RECORD_SEARCH);
+  const view = await readView(file, searchStart, file.size);
+  for (let offset = view.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return {
+        entryCount: view.getUint16(offset + 10, true),
+        directorySize: view.getUint32(offset + 12, true),
+        directoryOffset: view.getUint32(offset + 16, true),
+      };
+    }
+  }
+  throw new ZipError('Not a zip archive: end of central directory not found.');
+};
+
+/**
+ * Lists the files in a zip archive from its central directory. Only stored
+ * and deflated entries are supported; deflate goes through the browser's
+ * DecompressionStream, and entries are read lazily when extracted.
+ */
+export const readZipEntries = async (file: File): Promise<ZipEntry[]> => {
+  const { entryCount, directorySize, directoryOffset } = await findEndRecord(file);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new ZipError('ZIP64 archives are not supported.');
+  }
+
+  const directory = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipError(`Corrupt central directory at entry ${i + 1}.`);
+    }
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const uncompressedSize = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const localHeaderOffset = directory.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    entries.push({
+      path,
+      compressedSize,
+      uncompressedSize,
+      extract: async () => {
+        if (flags & 0x1) throw new ZipError(`${path} is encrypted.`);
+        if (method !== METHOD_STORED && method !== METHOD_DEFLATE) {
+          throw new ZipError(`${path} uses unsupported compression method ${method}.`);
+        }
+        // The local header repeats the name and may carry a different extra field.
+        const header = await readView(file, localHeaderOffset, localHeaderOffset + 30);
+        if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+          throw new ZipError(`Corrupt local header for ${path}.`);
+        }
+        const dataStart = localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const data = file.slice(dataStart, dataStart + compressedSize);
+        const content = method === METHOD_STORED
+          ? data
+          : await new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+        return new File([content], path.split('/').pop() ?? path);
+      },
+    });
+  }
+
+  return entries;
+};